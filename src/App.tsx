@@ -1,21 +1,8 @@
-import React, { useState, useCallback } from 'react';
+import { useState, useCallback } from 'react';
 import Game from './components/Game';
-import { GameState } from './types/game';
 import './index.css';
 
 function App() {
-  const [gameState, setGameState] = useState<GameState>({
-    weapon: null,
-    armour: null,
-    magic: null,
-    position: { x: 0, z: 0 },
-    stage: 0,
-    collectedBlocks: [],
-    isInvulnerable: false,
-    bossHealth: 100,
-    bossDefeated: false
-  });
-
   // Track if music has started
   const [musicStarted, setMusicStarted] = useState(false);
 
@@ -30,11 +17,7 @@ function App() {
 
   return (
     <div className="w-screen h-screen">
-      <Game 
-        gameState={gameState}
-        setGameState={setGameState}
-        playMusic={playMusic}
-      />
+      <Game playMusic={playMusic} />
     </div>
   );
 }
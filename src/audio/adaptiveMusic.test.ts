@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AdaptiveMusic } from './adaptiveMusic';
+import { AudioManager, PlayOptions, SoundHandle } from './audioManager';
+import { BeatGrid, MusicCue, MusicLayer, MusicState, getMusicIntensity } from './musicCues';
+import { GameState } from '../types/game';
+import { createInitialGameState } from '../store/gameStore';
+
+// 120bpm in 4/4, so every bar lasts 2 seconds, in a file that loops after 9 seconds
+const GRID: BeatGrid = { bpm: 120, beatsPerBar: 4, firstBeat: 0, loopLength: 9 };
+
+// Drums that are always in and a lead that only comes in with intensity
+const layers = (name: string): MusicLayer[] => [
+  { url: `${name}-drums.mp3`, volume: [0.5, 1] },
+  { url: `${name}-lead.mp3`, volume: [0, 0.8] }
+];
+
+const CUES: Record<MusicState, MusicCue> = {
+  bridge: { layers: layers('bridge'), grid: null },
+  boss: { layers: layers('boss'), grid: GRID },
+  // Half a second of lead-in before the first downbeat
+  victory: { layers: layers('victory'), grid: { ...GRID, firstBeat: 0.5 } }
+};
+
+// An audio manager whose clock only moves when the test says so
+function createManager() {
+  const played: { url: string; options: PlayOptions; sound: SoundHandle }[] = [];
+  const manager = {
+    currentTime: 0,
+    preload: vi.fn(() => Promise.resolve()),
+    play: vi.fn((url: string, options: PlayOptions = {}) => {
+      const sound = { playing: true, setVolume: vi.fn(), setPlaybackRate: vi.fn(), setPosition: vi.fn(), stop: vi.fn(), onStop: vi.fn() };
+      played.push({ url, options, sound });
+      return sound;
+    })
+  };
+  return { manager, played, music: new AdaptiveMusic(manager as unknown as AudioManager, state => CUES[state]) };
+}
+
+describe('AdaptiveMusic', () => {
+  it('starts every layer of a cue together, looping on the music bus', async () => {
+    const { manager, played, music } = createManager();
+    manager.currentTime = 5;
+
+    await music.play('bridge');
+
+    expect(played.map(({ url, options }) => [url, options.bus, options.loop, options.startAt])).toEqual([
+      ['bridge-drums.mp3', 'music', true, 5],
+      ['bridge-lead.mp3', 'music', true, 5]
+    ]);
+  });
+
+  it("lines the next cue's first downbeat up with the next bar line", async () => {
+    const { manager, played, music } = createManager();
+    await music.play('boss');
+
+    manager.currentTime = 3.1;
+    await music.play('victory');
+
+    const [drums, lead, ...victory] = played;
+    // The bar line is at 4 seconds, so every victory layer starts its half second lead-in at 3.5
+    expect(drums.sound.stop).toHaveBeenCalledWith(2, 3.5);
+    expect(lead.sound.stop).toHaveBeenCalledWith(2, 3.5);
+    expect(victory.map(({ url, options }) => [url, options.startAt, options.fadeIn])).toEqual([
+      ['victory-drums.mp3', 3.5, 2],
+      ['victory-lead.mp3', 3.5, 2]
+    ]);
+  });
+
+  it('waits another bar when the lead-in is longer than the wait for the next one', async () => {
+    const { manager, played, music } = createManager();
+    await music.play('boss');
+
+    manager.currentTime = 3.8;
+    await music.play('victory');
+
+    expect(played.slice(2).map(({ options }) => options.startAt)).toEqual([5.5, 5.5]);
+  });
+
+  it('starts the beat over with every loop of the stems', async () => {
+    const { manager, music } = createManager();
+    await music.play('boss');
+
+    // The last bar line of the first loop is at 8 seconds
+    manager.currentTime = 8.5;
+    expect(music.getNextBarTime()).toBe(9);
+    manager.currentTime = 9.5;
+    expect(music.getNextBarTime()).toBe(11);
+  });
+
+  it('leaves music without a beat straight away', async () => {
+    const { manager, played, music } = createManager();
+    await music.play('bridge');
+
+    manager.currentTime = 3.1;
+    await music.play('boss');
+
+    const [drums, , ...boss] = played;
+    expect(drums.sound.stop).toHaveBeenCalledWith(2, 3.1);
+    expect(boss.map(({ options }) => options.startAt)).toEqual([3.1, 3.1]);
+  });
+
+  it("doesn't restart the cue that's already playing", async () => {
+    const { played, music } = createManager();
+    await music.play('bridge');
+    await music.play('bridge');
+
+    expect(played).toHaveLength(2);
+  });
+
+  it("doesn't start a cue that was replaced while it loaded", async () => {
+    const { played, music } = createManager();
+    const boss = music.play('boss');
+    const victory = music.play('victory');
+    await Promise.all([boss, victory]);
+
+    expect(played.map(({ url }) => url)).toEqual(['victory-drums.mp3', 'victory-lead.mp3']);
+  });
+
+  it('mixes in layers with intensity without touching the tempo', async () => {
+    const { played, music } = createManager();
+    await music.play('boss');
+
+    music.setIntensity(1);
+
+    const [drums, lead] = played;
+    // Eased in over a beat
+    expect(drums.sound.setVolume).toHaveBeenCalledWith(1, 0.5);
+    expect(lead.sound.setVolume).toHaveBeenCalledWith(0.8, 0.5);
+    expect(drums.sound.setPlaybackRate).not.toHaveBeenCalled();
+    expect(played.every(({ options }) => options.playbackRate === undefined)).toBe(true);
+  });
+});
+
+describe('getMusicIntensity', () => {
+  const game = (overrides: Partial<GameState>): GameState => ({ ...createInitialGameState(), ...overrides });
+
+  it('builds with the cards collected on the bridge', () => {
+    expect(getMusicIntensity('bridge', game({}))).toBe(0);
+    expect(getMusicIntensity('bridge', game({ collectedBlocks: [{ x: 0, z: 10 }] }))).toBeCloseTo(1 / 3);
+  });
+
+  it('steps up with boss health bands and phases, and when the player is in danger', () => {
+    const fresh = getMusicIntensity('boss', game({}));
+    const scratched = getMusicIntensity('boss', game({ bossHealth: 95 }));
+    const halfway = getMusicIntensity('boss', game({ bossHealth: 50 }));
+    const desperate = getMusicIntensity('boss', game({ bossHealth: 50, playerHealth: 10 }));
+
+    expect(scratched).toBe(fresh);
+    expect(halfway).toBeGreaterThan(fresh);
+    expect(desperate).toBeGreaterThan(halfway);
+    expect(getMusicIntensity('boss', game({ bossHealth: 5, playerHealth: 1 }))).toBe(1);
+  });
+});
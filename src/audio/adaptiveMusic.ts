@@ -0,0 +1,128 @@
+import { AudioManager, SoundHandle, audioManager } from './audioManager';
+import { BeatGrid, MusicCue, MusicLayer, MusicState, getMusicCue } from './musicCues';
+
+const lerp = (range: [number, number], t: number) => range[0] + (range[1] - range[0]) * t;
+
+// Changes of intensity smaller than this aren't worth touching the gain for
+const INTENSITY_EPSILON = 0.01;
+
+// Crossfade and easing times for music without a beat to time them by
+const FREE_CROSSFADE = 2;
+const FREE_EASE = 0.5;
+
+const getBarLength = (grid: BeatGrid) => (60 / grid.bpm) * grid.beatsPerBar;
+
+interface PlayingLayer {
+  layer: MusicLayer;
+  sound: SoundHandle;
+}
+
+// Plays the cue for each part of the game with its layers in sync, moving between cues on a bar
+// line and mixing the layers by intensity. The tempo is never touched, so the music keeps its pitch.
+export class AdaptiveMusic {
+  private manager: AudioManager;
+  private getCue: (state: MusicState) => MusicCue;
+  private state: MusicState | null = null;
+  private cue: MusicCue | null = null;
+  private layers: PlayingLayer[] = [];
+  // The context time the playing cue's stems started from the top
+  private startTime = 0;
+  private intensity = 0;
+  // Bumped whenever the cue changes, so a cue that finishes loading after being replaced isn't started
+  private generation = 0;
+
+  constructor(manager: AudioManager = audioManager, getCue: (state: MusicState) => MusicCue = getMusicCue) {
+    this.manager = manager;
+    this.getCue = getCue;
+  }
+
+  get currentState(): MusicState | null {
+    return this.state;
+  }
+
+  // Move to the cue for a state, starting on the next bar of whatever is playing.
+  // Asking for the state that's already playing does nothing.
+  play(state: MusicState): Promise<void> {
+    if (state === this.state) return Promise.resolve();
+    this.state = state;
+    const generation = ++this.generation;
+    const cue = this.getCue(state);
+
+    // Every stem has to be decoded before any of them starts, or they'd start out of step
+    return this.manager.preload(cue.layers.map(layer => layer.url)).then(() => {
+      if (generation === this.generation) this.startCue(cue);
+    });
+  }
+
+  // Mix the layers for how intense things are (0-1)
+  setIntensity(intensity: number) {
+    const clamped = Math.min(1, Math.max(0, intensity));
+    if (Math.abs(clamped - this.intensity) < INTENSITY_EPSILON) return;
+    this.intensity = clamped;
+    if (!this.cue) return;
+
+    // Ease into the new mix over a beat
+    const ease = this.cue.grid ? 60 / this.cue.grid.bpm : FREE_EASE;
+    this.layers.forEach(({ layer, sound }) => sound.setVolume(lerp(layer.volume, this.intensity), ease));
+  }
+
+  stop(fade = 0) {
+    this.generation++;
+    this.layers.forEach(({ sound }) => sound.stop(fade));
+    this.layers = [];
+    this.state = null;
+    this.cue = null;
+  }
+
+  // The context time of the next bar line of the playing cue, or now if it has no beat to wait for
+  getNextBarTime(): number {
+    return this.getBarAtOrAfter(this.manager.currentTime);
+  }
+
+  private getBarAtOrAfter(time: number): number {
+    const grid = this.cue?.grid;
+    if (!grid) return time;
+
+    // Find the position in the loop playing at that time, then the first downbeat from there
+    const elapsed = Math.max(0, time - this.startTime);
+    const loopStart = Math.floor(elapsed / grid.loopLength) * grid.loopLength;
+    const barLength = getBarLength(grid);
+    const bar = Math.max(0, Math.ceil((elapsed - loopStart - grid.firstBeat) / barLength));
+    const downbeat = grid.firstBeat + bar * barLength;
+    // Past the last bar line of the loop, the next one is the first of the next loop
+    const offset = downbeat < grid.loopLength ? downbeat : grid.loopLength + grid.firstBeat;
+    return Math.max(time, this.startTime + loopStart + offset);
+  }
+
+  private startCue(cue: MusicCue) {
+    const previous = this.cue;
+    // Start the stems early by their lead-in so its first downbeat lands on the bar line, waiting
+    // for a later bar if the lead-in is already too long for the next one
+    const leadIn = cue.grid?.firstBeat ?? 0;
+    const now = this.manager.currentTime;
+    const startAt = this.getBarAtOrAfter(now + leadIn) - leadIn;
+
+    // Crossfade over a bar of the outgoing cue, or bring the first cue in over a beat
+    let fade: number;
+    if (previous) fade = previous.grid ? getBarLength(previous.grid) : FREE_CROSSFADE;
+    else fade = cue.grid ? 60 / cue.grid.bpm : FREE_EASE;
+
+    this.layers.forEach(({ sound }) => sound.stop(fade, startAt));
+
+    this.cue = cue;
+    this.startTime = startAt;
+    this.layers = cue.layers.map(layer => ({
+      layer,
+      sound: this.manager.play(layer.url, {
+        bus: 'music',
+        loop: true,
+        volume: lerp(layer.volume, this.intensity),
+        fadeIn: fade,
+        startAt
+      })
+    }));
+  }
+}
+
+// The music shared by the whole game
+export const adaptiveMusic = new AdaptiveMusic();
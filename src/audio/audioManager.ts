@@ -0,0 +1,321 @@
+// Every sound in the game goes through here: one AudioContext, a gain node per bus feeding a
+// master gain, and decoded AudioBuffers shared between everything that plays the same file.
+export type AudioBus = 'music' | 'sfx' | 'voice';
+
+export const AUDIO_BUSES: AudioBus[] = ['music', 'sfx', 'voice'];
+
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// How a positioned sound gets quieter with distance from the listener, as in PannerNode
+export interface DistanceCurve {
+  model: DistanceModelType;
+  // Full volume up to this distance
+  refDistance: number;
+  // The sound stops getting quieter beyond this distance (silent here with the linear model)
+  maxDistance: number;
+  // How quickly it gets quieter between the two
+  rolloffFactor: number;
+}
+
+export const DEFAULT_DISTANCE_CURVE: DistanceCurve = {
+  model: 'inverse',
+  refDistance: 1,
+  maxDistance: 100,
+  rolloffFactor: 1
+};
+
+export interface PlayOptions {
+  bus?: AudioBus;
+  volume?: number;
+  loop?: boolean;
+  playbackRate?: number;
+  // Seconds to ramp up from silence
+  fadeIn?: number;
+  // AudioContext time to start at, e.g. to line up with a beat of another sound. Defaults to now.
+  startAt?: number;
+  // Place the sound in the scene, so it's panned and attenuated relative to the listener
+  position?: Vector3Like;
+  distance?: Partial<DistanceCurve>;
+}
+
+// A sound that has been asked to play. It starts as soon as its buffer has loaded.
+export interface SoundHandle {
+  readonly playing: boolean;
+  // Ramp to a volume over fadeTime seconds, starting now or at an AudioContext time
+  setVolume: (volume: number, fadeTime?: number, at?: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  // Move a positioned sound, e.g. each frame to follow its object. Does nothing for other sounds.
+  setPosition: (position: Vector3Like) => void;
+  // Fade out over the given seconds, from now or an AudioContext time, then let go of the nodes
+  stop: (fadeOut?: number, at?: number) => void;
+  // Hear when the sound stops - asked to, run out, or failed to load. Called straight away if it already has.
+  onStop: (listener: () => void) => void;
+}
+
+// Gestures browsers accept as permission to start audio
+const UNLOCK_EVENTS = ['pointerdown', 'keydown', 'touchstart'];
+
+class Sound implements SoundHandle {
+  private context: AudioContext;
+  private gain: GainNode;
+  private source: AudioBufferSourceNode | null = null;
+  private panner: PannerNode | null = null;
+  private playbackRate: number;
+  private stopped = false;
+  private stopListeners: (() => void)[] = [];
+
+  constructor(context: AudioContext, output: AudioNode, buffer: Promise<AudioBuffer | null>, options: PlayOptions) {
+    const { volume = 1, loop = false, playbackRate = 1, fadeIn = 0, startAt = 0 } = options;
+    this.context = context;
+    this.playbackRate = playbackRate;
+
+    this.gain = context.createGain();
+    this.gain.gain.value = fadeIn > 0 ? 0 : volume;
+
+    if (options.position) {
+      const curve = { ...DEFAULT_DISTANCE_CURVE, ...options.distance };
+      this.panner = context.createPanner();
+      this.panner.panningModel = 'HRTF';
+      this.panner.distanceModel = curve.model;
+      this.panner.refDistance = curve.refDistance;
+      this.panner.maxDistance = curve.maxDistance;
+      this.panner.rolloffFactor = curve.rolloffFactor;
+      this.setPosition(options.position);
+      this.gain.connect(this.panner);
+      this.panner.connect(output);
+    } else {
+      this.gain.connect(output);
+    }
+
+    buffer.then(decoded => {
+      if (this.stopped) return;
+      if (!decoded) {
+        this.markStopped();
+        this.disconnect();
+        return;
+      }
+
+      const source = context.createBufferSource();
+      source.buffer = decoded;
+      source.loop = loop;
+      source.playbackRate.value = this.playbackRate;
+      source.connect(this.gain);
+      source.onended = () => {
+        this.markStopped();
+        this.disconnect();
+      };
+      const startTime = Math.max(startAt, context.currentTime);
+      source.start(startTime);
+      this.source = source;
+
+      if (fadeIn > 0) this.setVolume(volume, fadeIn, startTime);
+    });
+  }
+
+  get playing(): boolean {
+    return !this.stopped;
+  }
+
+  setVolume(volume: number, fadeTime = 0, at = 0) {
+    if (this.stopped) return;
+    const param = this.gain.gain;
+    const now = this.context.currentTime;
+    const start = Math.max(at, now);
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    if (start > now) param.setValueAtTime(param.value, start);
+    if (fadeTime > 0) {
+      param.linearRampToValueAtTime(volume, start + fadeTime);
+    } else {
+      param.setValueAtTime(volume, start);
+    }
+  }
+
+  setPlaybackRate(rate: number) {
+    this.playbackRate = rate;
+    if (this.source) this.source.playbackRate.value = rate;
+  }
+
+  setPosition({ x, y, z }: Vector3Like) {
+    if (!this.panner) return;
+    this.panner.positionX.value = x;
+    this.panner.positionY.value = y;
+    this.panner.positionZ.value = z;
+  }
+
+  stop(fadeOut = 0, at = 0) {
+    if (this.stopped) return;
+    this.setVolume(0, fadeOut, at);
+    this.markStopped();
+
+    if (this.source) {
+      // onended disconnects the gain once the fade has finished
+      this.source.stop(Math.max(at, this.context.currentTime) + fadeOut);
+    } else {
+      // Never started - the buffer callback sees it's stopped and won't start it
+      this.disconnect();
+    }
+  }
+
+  onStop(listener: () => void) {
+    if (this.stopped) listener();
+    else this.stopListeners.push(listener);
+  }
+
+  private markStopped() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.stopListeners.forEach(listener => listener());
+    this.stopListeners = [];
+  }
+
+  private disconnect() {
+    this.gain.disconnect();
+    this.panner?.disconnect();
+  }
+}
+
+export class AudioManager {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private buses: Partial<Record<AudioBus, GainNode>> = {};
+  private buffers = new Map<string, Promise<AudioBuffer | null>>();
+  private sounds = new Set<Sound>();
+  private playListeners = new Set<(url: string, options: PlayOptions, sound: SoundHandle) => void>();
+
+  // The context is created on first use - it starts suspended until the first gesture unlocks it
+  private getContext(): AudioContext {
+    if (this.context) return this.context;
+
+    const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    const context = new AudioContextClass();
+    const master = context.createGain();
+    master.connect(context.destination);
+    AUDIO_BUSES.forEach(bus => {
+      const gain = context.createGain();
+      gain.connect(master);
+      this.buses[bus] = gain;
+    });
+
+    this.context = context;
+    this.master = master;
+    return context;
+  }
+
+  private getBus(bus: AudioBus): GainNode {
+    this.getContext();
+    return this.buses[bus]!;
+  }
+
+  // The AudioContext clock that startAt and fade times are measured against
+  get currentTime(): number {
+    return this.getContext().currentTime;
+  }
+
+  // Resume the context from inside a user gesture
+  unlock(): Promise<void> {
+    const context = this.getContext();
+    if (context.state !== 'suspended') return Promise.resolve();
+    return context.resume().then(
+      () => console.log('Audio unlocked'),
+      error => console.log('Failed to unlock audio:', error)
+    );
+  }
+
+  // Unlock on the first click, key or touch anywhere on the page. Returns a function that stops listening.
+  unlockOnFirstGesture(): () => void {
+    const handleGesture = () => {
+      stopListening();
+      this.unlock();
+    };
+    const stopListening = () => {
+      UNLOCK_EVENTS.forEach(event => window.removeEventListener(event, handleGesture, true));
+    };
+
+    UNLOCK_EVENTS.forEach(event => window.addEventListener(event, handleGesture, true));
+    return stopListening;
+  }
+
+  // Fetch and decode a file once; later calls share the same buffer
+  load(url: string): Promise<AudioBuffer | null> {
+    const cached = this.buffers.get(url);
+    if (cached) return cached;
+
+    const context = this.getContext();
+    const buffer = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(data => context.decodeAudioData(data))
+      .catch(error => {
+        console.log(`Failed to load sound ${url}:`, error);
+        return null;
+      });
+    this.buffers.set(url, buffer);
+    return buffer;
+  }
+
+  preload(urls: string[]): Promise<void> {
+    return Promise.all(urls.map(url => this.load(url))).then(() => undefined);
+  }
+
+  play(url: string, options: PlayOptions = {}): SoundHandle {
+    const context = this.getContext();
+    const sound = new Sound(context, this.getBus(options.bus ?? 'sfx'), this.load(url), options);
+    this.sounds.add(sound);
+    this.forgetStoppedSounds();
+    this.playListeners.forEach(listener => listener(url, options, sound));
+    return sound;
+  }
+
+  // Hear about every sound as it's played, e.g. to caption it. Returns a function that stops listening.
+  onPlay(listener: (url: string, options: PlayOptions, sound: SoundHandle) => void): () => void {
+    this.playListeners.add(listener);
+    return () => {
+      this.playListeners.delete(listener);
+    };
+  }
+
+  // Fade everything out, e.g. before leaving through a portal
+  stopAll(fade = 0) {
+    this.sounds.forEach(sound => sound.stop(fade));
+    this.sounds.clear();
+  }
+
+  // Where positioned sounds are heard from - the camera, facing the way it looks
+  setListener(position: Vector3Like, forward: Vector3Like, up: Vector3Like) {
+    const { listener } = this.getContext();
+    listener.positionX.value = position.x;
+    listener.positionY.value = position.y;
+    listener.positionZ.value = position.z;
+    listener.forwardX.value = forward.x;
+    listener.forwardY.value = forward.y;
+    listener.forwardZ.value = forward.z;
+    listener.upX.value = up.x;
+    listener.upY.value = up.y;
+    listener.upZ.value = up.z;
+  }
+
+  setBusVolume(bus: AudioBus, volume: number) {
+    this.getBus(bus).gain.value = volume;
+  }
+
+  setMasterVolume(volume: number) {
+    this.getContext();
+    this.master!.gain.value = volume;
+  }
+
+  private forgetStoppedSounds() {
+    this.sounds.forEach(sound => {
+      if (!sound.playing) this.sounds.delete(sound);
+    });
+  }
+}
+
+// The single audio manager shared by every component
+export const audioManager = new AudioManager();
@@ -0,0 +1,71 @@
+import { AudioBus, AudioManager, AUDIO_BUSES, audioManager } from './audioManager';
+
+const SETTINGS_KEY = 'cloud-realm-audio';
+
+// The master volume plus one channel per bus
+export type AudioChannel = 'master' | AudioBus;
+
+export const AUDIO_CHANNELS: AudioChannel[] = ['master', ...AUDIO_BUSES];
+
+export interface ChannelSettings {
+  volume: number;
+  muted: boolean;
+}
+
+export type AudioSettings = Record<AudioChannel, ChannelSettings> & {
+  // Subtitles for voice lines and labels for key sounds
+  captions: boolean;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  master: { volume: 1, muted: false },
+  music: { volume: 1, muted: false },
+  sfx: { volume: 1, muted: false },
+  voice: { volume: 1, muted: false },
+  captions: false
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Anything missing or malformed falls back to the default for that channel
+function sanitizeSettings(stored: Record<string, unknown>): AudioSettings {
+  const settings = { ...DEFAULT_AUDIO_SETTINGS };
+  AUDIO_CHANNELS.forEach(channel => {
+    const value = stored[channel] as Partial<ChannelSettings> | undefined;
+    settings[channel] = {
+      volume: typeof value?.volume === 'number' && Number.isFinite(value.volume)
+        ? clamp(value.volume, 0, 1)
+        : DEFAULT_AUDIO_SETTINGS[channel].volume,
+      muted: typeof value?.muted === 'boolean' ? value.muted : DEFAULT_AUDIO_SETTINGS[channel].muted
+    };
+  });
+  settings.captions = typeof stored.captions === 'boolean' ? stored.captions : DEFAULT_AUDIO_SETTINGS.captions;
+  return settings;
+}
+
+export function loadAudioSettings(storage: Storage = window.localStorage): AudioSettings {
+  try {
+    const raw = storage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_AUDIO_SETTINGS;
+    return sanitizeSettings(JSON.parse(raw) ?? {});
+  } catch (error) {
+    console.log('Failed to read audio settings, using defaults:', error);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings, storage: Storage = window.localStorage) {
+  try {
+    storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.log('Failed to save audio settings:', error);
+  }
+}
+
+const effectiveVolume = ({ volume, muted }: ChannelSettings) => muted ? 0 : volume;
+
+// Set the bus gains, which every sound that's playing or yet to play goes through
+export function applyAudioSettings(settings: AudioSettings, manager: AudioManager = audioManager) {
+  manager.setMasterVolume(effectiveVolume(settings.master));
+  AUDIO_BUSES.forEach(bus => manager.setBusVolume(bus, effectiveVolume(settings[bus])));
+}
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCaptionStore, startCaptions, VOICE_TRACKS } from './captions';
+import { AudioManager, PlayOptions, SoundHandle } from './audioManager';
+import { SOUNDS } from './sounds';
+import { BOSS } from '../content/boss';
+
+// Just enough of a sound to hear when it stops
+function createSound() {
+  const stopListeners: (() => void)[] = [];
+  const sound: SoundHandle = {
+    playing: true,
+    setVolume: vi.fn(),
+    setPlaybackRate: vi.fn(),
+    setPosition: vi.fn(),
+    stop: () => stopListeners.forEach(listener => listener()),
+    onStop: listener => {
+      stopListeners.push(listener);
+    }
+  };
+  return sound;
+}
+
+// An audio manager that only tells its listeners what was played
+function createManager() {
+  let listener: Parameters<AudioManager['onPlay']>[0] = () => {};
+  const manager: Pick<AudioManager, 'onPlay'> = {
+    onPlay: next => {
+      listener = next;
+      return () => {};
+    }
+  };
+  const play = (url: string, options: PlayOptions = {}) => {
+    const sound = createSound();
+    listener(url, options, sound);
+    return sound;
+  };
+  return { manager: manager as AudioManager, play };
+}
+
+describe('startCaptions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('takes a one-off sound label down after a moment', () => {
+    const store = createCaptionStore();
+    const { manager, play } = createManager();
+    startCaptions(manager, store);
+
+    play(SOUNDS.hit);
+    vi.advanceTimersByTime(100);
+    expect(store.getCaptions().map(caption => caption.text)).toEqual(['[hit]']);
+
+    vi.advanceTimersByTime(2000);
+    expect(store.getCaptions()).toEqual([]);
+  });
+
+  it("keeps a looping sound's label up until the loop stops", () => {
+    const store = createCaptionStore();
+    const { manager, play } = createManager();
+    startCaptions(manager, store);
+
+    const hum = play(BOSS.humSound, { loop: true });
+    vi.advanceTimersByTime(60000);
+    expect(store.getCaptions().map(caption => caption.text)).toEqual(['[boss hums]']);
+
+    hum.stop();
+    expect(store.getCaptions()).toEqual([]);
+  });
+
+  it('moves through a voice clip a phrase at a time', () => {
+    const store = createCaptionStore();
+    const { manager, play } = createManager();
+    startCaptions(manager, store);
+    const shown = () => store.getCaptions().map(caption => caption.text);
+
+    play('/models/voice-axe.mp3', { bus: 'voice' });
+
+    vi.advanceTimersByTime(500);
+    expect(shown()).toEqual(['The axe.']);
+    vi.advanceTimersByTime(1500);
+    expect(shown()).toEqual(['Chop them down, kitty.']);
+    vi.advanceTimersByTime(1500);
+    expect(shown()).toEqual([]);
+  });
+
+  it('times every voice track in order, without overlapping phrases', () => {
+    Object.values(VOICE_TRACKS).forEach(cues => {
+      cues.forEach(({ start, end }, i) => {
+        expect(end).toBeGreaterThan(start);
+        if (i > 0) expect(start).toBeGreaterThanOrEqual(cues[i - 1].end);
+      });
+    });
+  });
+});
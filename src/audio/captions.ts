@@ -0,0 +1,186 @@
+import { useSyncExternalStore } from 'react';
+import { AudioManager, audioManager } from './audioManager';
+import { SOUNDS } from './sounds';
+import { ITEMS } from '../items/registry';
+import { BOSS } from '../content/boss';
+
+// One line of a subtitle track, timed in seconds from when its sound starts
+export interface CaptionCue {
+  start: number;
+  // Infinity to stay up until the track is hidden
+  end: number;
+  text: string;
+}
+
+// Speech is shown as subtitles, everything else as a bracketed sound label
+export type CaptionKind = 'speech' | 'sound';
+
+export interface CaptionTrack {
+  kind: CaptionKind;
+  cues: CaptionCue[];
+}
+
+export interface Caption {
+  id: number;
+  kind: CaptionKind;
+  text: string;
+}
+
+// Subtitle tracks for the voice clips, keyed by file, with a cue for each spoken phrase. Each cue
+// stays up until the next phrase starts, so the line doesn't flicker off between breaths.
+export const VOICE_TRACKS: Record<string, CaptionCue[]> = {
+  '/models/voice-sword.mp3': [{ start: 0.1, end: 3.1, text: 'The sword is mightier than the paw.' }],
+  '/models/voice-fist.mp3': [
+    { start: 0.1, end: 2.1, text: 'The paw is mightiest.' },
+    { start: 2.1, end: 3.6, text: 'Perfection.' }
+  ],
+  '/models/voice-axe.mp3': [
+    { start: 0.1, end: 1.2, text: 'The axe.' },
+    { start: 1.2, end: 3.1, text: 'Chop them down, kitty.' }
+  ],
+  '/models/voice-steel.mp3': [
+    { start: 0.1, end: 2.1, text: 'Protected by steel.' },
+    { start: 2.1, end: 3.7, text: 'Heavier than feathers.' }
+  ],
+  '/models/voice-knowledge.mp3': [
+    { start: 0.1, end: 1.5, text: 'Knowledge.' },
+    { start: 1.5, end: 2.7, text: 'Here in my garage,' },
+    { start: 2.7, end: 5.1, text: 'I prepare my cat attack.' }
+  ],
+  '/models/voice-gold.mp3': [
+    { start: 0, end: 3.4, text: 'Gold, protected by the ancient...' },
+    { start: 3.4, end: 4.6, text: 'Meow.' }
+  ],
+  '/models/voice-fire.mp3': [
+    { start: 0, end: 1.1, text: 'Fire!' },
+    { start: 1.1, end: 3.6, text: 'Prepare the mind liar.' }
+  ],
+  '/models/voice-water.mp3': [
+    { start: 0, end: 1.9, text: 'Water flow.' },
+    { start: 1.9, end: 3.6, text: 'Kitty gotta go.' }
+  ],
+  '/models/voice-love.mp3': [
+    { start: 0, end: 1.2, text: 'Love.' },
+    { start: 1.3, end: 6.9, text: '♪ [singing] ♪' },
+    { start: 7.1, end: 10.8, text: 'Oh, hello, good choice.' }
+  ]
+};
+
+// How long a one-off sound's label stays up - a looping sound's stays up until the loop stops
+const SOUND_LABEL_DURATION = 1.5;
+
+// Voice clips without a track of their own, e.g. from a content pack, show the card's name
+const FALLBACK_VOICE_DURATION = 2.5;
+
+// Labels for the sounds worth knowing about. Built on demand because content packs can replace
+// the items and boss after import.
+function getSoundLabels(): Record<string, string> {
+  const labels: Record<string, string> = {
+    [SOUNDS.hit]: '[hit]',
+    [SOUNDS.cardPickup]: '[meow]',
+    [BOSS.humSound]: '[boss hums]'
+  };
+  ITEMS.forEach(item => {
+    if (item.attackSound) labels[item.attackSound] = `[${item.label.toLowerCase()} attack]`;
+  });
+  return labels;
+}
+
+// The captions for a sound file, or null if it plays uncaptioned
+export function getCaptionTrack(url: string, loop = false): CaptionTrack | null {
+  if (VOICE_TRACKS[url]) return { kind: 'speech', cues: VOICE_TRACKS[url] };
+
+  const voiceItem = ITEMS.find(item => item.voiceClip === url);
+  if (voiceItem) {
+    return { kind: 'speech', cues: [{ start: 0, end: FALLBACK_VOICE_DURATION, text: voiceItem.label }] };
+  }
+
+  const label = getSoundLabels()[url];
+  if (!label) return null;
+  return { kind: 'sound', cues: [{ start: 0, end: loop ? Infinity : SOUND_LABEL_DURATION, text: label }] };
+}
+
+type Listener = () => void;
+
+export interface CaptionStore {
+  getCaptions: () => Caption[];
+  // Show a track's cues as they come up, starting now. Returns a function that takes them down early.
+  show: (track: CaptionTrack) => () => void;
+  clear: () => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+// Captions currently on screen, oldest first
+export function createCaptionStore(): CaptionStore {
+  let captions: Caption[] = [];
+  let nextId = 0;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const listeners = new Set<Listener>();
+
+  const update = (next: Caption[]) => {
+    captions = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const after = (seconds: number, callback: () => void) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, seconds * 1000);
+    timers.add(timer);
+  };
+
+  return {
+    getCaptions: () => captions,
+    show: ({ kind, cues }) => {
+      const ids = new Set<number>();
+      const hide = () => {
+        if (captions.some(shown => ids.has(shown.id))) update(captions.filter(shown => !ids.has(shown.id)));
+        ids.clear();
+      };
+
+      cues.forEach(({ start, end, text }) => {
+        const caption = { id: nextId++, kind, text };
+        ids.add(caption.id);
+        after(start, () => {
+          if (ids.has(caption.id)) update([...captions, caption]);
+        });
+        if (Number.isFinite(end)) after(end, () => update(captions.filter(shown => shown.id !== caption.id)));
+      });
+      return hide;
+    },
+    clear: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      update([]);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+// The captions shared by the whole game
+export const captionStore = createCaptionStore();
+
+// Caption every sound the audio manager plays until the returned function is called
+export function startCaptions(manager: AudioManager = audioManager, store: CaptionStore = captionStore): () => void {
+  const stopListening = manager.onPlay((url, { loop }, sound) => {
+    const track = getCaptionTrack(url, loop);
+    if (!track) return;
+    const hide = store.show(track);
+    if (loop) sound.onStop(hide);
+  });
+
+  return () => {
+    stopListening();
+    store.clear();
+  };
+}
+
+export function useCaptions(): Caption[] {
+  return useSyncExternalStore(captionStore.subscribe, captionStore.getCaptions);
+}
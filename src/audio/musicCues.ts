@@ -0,0 +1,84 @@
+import { GameState } from '../types/game';
+import { STAGES } from '../items/registry';
+import { BOSS } from '../content/boss';
+import { BOSS_PHASES, getBossPhaseIndex } from '../combat/phases';
+import { SOUNDS } from './sounds';
+
+// Which part of the game the music is scoring
+export type MusicState = 'bridge' | 'boss' | 'victory';
+
+// Where the beats fall in a music file, so transitions can land on a bar line
+export interface BeatGrid {
+  bpm: number;
+  beatsPerBar: number;
+  // Seconds into the file of the first downbeat
+  firstBeat: number;
+  // Length of the file - loops don't end on a bar line, so the grid starts over with every loop
+  loopLength: number;
+}
+
+// One stem of a cue. Every layer of a cue starts on the same beat and loops together.
+export interface MusicLayer {
+  url: string;
+  // Volume at no intensity and at full intensity - start at 0 for a layer that only
+  // comes in as things heat up
+  volume: [number, number];
+}
+
+export interface MusicCue {
+  layers: MusicLayer[];
+  // Shared by every layer. Null for music without a steady beat, which can be left at any moment.
+  grid: BeatGrid | null;
+}
+
+// Measured from the files' onsets. bg.mp3 has no steady pulse to measure, so it has no grid,
+// and a content pack's boss music is left without one too.
+const BEAT_GRIDS: Record<string, BeatGrid> = {
+  '/models/boss.mp3': { bpm: 140.1, beatsPerBar: 4, firstBeat: 0.085, loopLength: 32.811 },
+  [SOUNDS.victoryMusic]: { bpm: 174.1, beatsPerBar: 4, firstBeat: 0.278, loopLength: 32.811 }
+};
+
+// Stems are cut from the same mix, so the first layer's grid is every layer's
+const getCue = (layers: MusicLayer[]): MusicCue => ({ layers, grid: BEAT_GRIDS[layers[0].url] ?? null });
+
+// Built on demand because a content pack may have replaced the boss music since import
+export function getMusicCue(state: MusicState): MusicCue {
+  switch (state) {
+    case 'bridge':
+      return getCue([{ url: SOUNDS.backgroundMusic, volume: [0.5, 0.7] }]);
+    case 'boss':
+      return getCue([{ url: BOSS.music, volume: [0.7, 0.9] }]);
+    case 'victory':
+      return getCue([{ url: SOUNDS.victoryMusic, volume: [0.7, 0.7] }]);
+  }
+}
+
+// Boss health counts in bands, so the music steps up at each quarter rather than with every hit
+const BOSS_HEALTH_BANDS = 4;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// How intense the music should be (0-1) for what's happening in the game
+export function getMusicIntensity(state: MusicState, game: GameState): number {
+  switch (state) {
+    case 'bridge':
+      // Builds as the player fills each stage
+      return clamp01(game.collectedBlocks.length / STAGES.length);
+    case 'boss': {
+      const bossDamage = Math.floor((1 - game.bossHealth / 100) * BOSS_HEALTH_BANDS) / BOSS_HEALTH_BANDS;
+      const phaseFloor = BOSS_PHASES[getBossPhaseIndex(game.bossHealth)].music.intensity;
+      // Pushes harder when the player is close to losing
+      const danger = 0.3 * (1 - game.playerHealth / 100);
+      return clamp01(Math.max(bossDamage, phaseFloor) + danger);
+    }
+    case 'victory':
+      return 0;
+  }
+}
+
+// The music state for the game as it stands - the boss music carries on over the defeat screen
+export const getMusicState = (game: GameState): MusicState => {
+  if (game.bossDefeated) return 'victory';
+  if (game.weapon !== null && game.armour !== null && game.magic !== null) return 'boss';
+  return 'bridge';
+};
@@ -0,0 +1,18 @@
+import { DistanceCurve } from './audioManager';
+
+// Sound files that don't belong to an item or the boss
+export const SOUNDS = {
+  backgroundMusic: '/models/bg.mp3',
+  victoryMusic: '/models/end.mp3',
+  hit: '/models/hit.mp3',
+  cardPickup: '/models/meow.mp3',
+  portalHum: '/models/portal-hum.wav'
+};
+
+// How far positioned sounds carry, by what makes them
+export const DISTANCE_CURVES: Record<'bossHum' | 'portalAmbient', Partial<DistanceCurve>> = {
+  // The Mind hovers a few units ahead of the player, so keep it near full volume at fighting range
+  bossHum: { model: 'inverse', refDistance: 4, maxDistance: 60, rolloffFactor: 1.2 },
+  // Portals fade in over the last stretch of bridge before them and are silent further away
+  portalAmbient: { model: 'linear', refDistance: 2, maxDistance: 25, rolloffFactor: 1 }
+};
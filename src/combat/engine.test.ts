@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { Loadout, StatusType } from '../types/game';
+import { calculateBossDamage, calculateDamage, CombatConfig, CombatEvent, createCombat, FIXED_TIMESTEP, simulateFight } from './engine';
+import { STATUS_EFFECTS } from './statuses';
+
+const loadout = (weapon: string, armour: string, magic: string): Loadout => ({ weapon, armour, magic });
+
+// No synergies, so each test only sees the cards it's about
+const PLAIN: Partial<CombatConfig> = { synergies: [] };
+
+// The player attacks once every ten seconds and every hit lands its status, so nothing gets refreshed
+const ONE_STATUS_AT_A_TIME: Partial<CombatConfig> = {
+  ...PLAIN,
+  attackInterval: 10,
+  statuses: {
+    burn: { ...STATUS_EFFECTS.burn, chance: 1 },
+    slow: { ...STATUS_EFFECTS.slow, chance: 1 },
+    charm: { ...STATUS_EFFECTS.charm, chance: 1 }
+  }
+};
+
+const ofType = <T extends CombatEvent['type']>(events: CombatEvent[], type: T) =>
+  events.filter((event): event is Extract<CombatEvent, { type: T }> => event.type === type);
+
+describe('calculateDamage', () => {
+  it('adds item bonuses before the magic multiplier', () => {
+    // (10 + 2 sword + 2 steel) * 1.5 fire
+    expect(calculateDamage(loadout('sword', 'steel', 'fire'))).toBe(21);
+    // (10 + 3 axe + 1 gold) * 1.2 water
+    expect(calculateDamage(loadout('axe', 'gold', 'water'))).toBe(17);
+  });
+});
+
+describe('calculateBossDamage', () => {
+  it('lets armour absorb its share of each hit', () => {
+    expect(calculateBossDamage('knowledge', 20)).toBe(17);
+    expect(calculateBossDamage('steel', 20)).toBe(14);
+    expect(calculateBossDamage('gold', 20)).toBe(12);
+  });
+
+  it('never absorbs more than 90%, or the whole hit', () => {
+    expect(calculateBossDamage('gold', 20, 0.8)).toBe(2);
+    expect(calculateBossDamage('gold', 1)).toBe(1);
+  });
+});
+
+describe('simulateFight', () => {
+  it('plays out the same fight for the same seed and loadout', () => {
+    const cards = loadout('sword', 'steel', 'fire');
+    const first = simulateFight(cards, { seed: 1234 });
+    const second = simulateFight(cards, { seed: 1234 });
+
+    expect(second).toEqual(first);
+    expect(simulateFight(cards, { seed: 4321 }).events).not.toEqual(first.events);
+  });
+
+  it('hurts the player less through heavier armour', () => {
+    const options = { seed: 7, config: PLAIN, initialPlayerHealth: 10000, maxDuration: 30 };
+    const lightHits = ofType(simulateFight(loadout('fist', 'knowledge', 'water'), options).events, 'playerHit');
+    const heavyHits = ofType(simulateFight(loadout('fist', 'gold', 'water'), options).events, 'playerHit');
+
+    // Raw boss hits are 14-22, so knowledge (15%) lets through 12-19 and gold (40%) 8-13
+    expect(lightHits.length).toBeGreaterThan(0);
+    expect(heavyHits.length).toBeGreaterThan(0);
+    lightHits.forEach(hit => expect(hit.damage).toBeGreaterThanOrEqual(12));
+    heavyHits.forEach(hit => expect(hit.damage).toBeLessThanOrEqual(13));
+  });
+
+  it('changes phase as the boss drops past 66 and 33 health', () => {
+    const { events } = simulateFight(loadout('axe', 'gold', 'water'), {
+      seed: 99,
+      config: PLAIN,
+      initialPlayerHealth: 10000
+    });
+
+    const phaseChanges = ofType(events, 'phaseChanged');
+    expect(phaseChanges.map(event => event.phase)).toEqual([1, 2]);
+
+    // Each change comes straight after the hit that crossed its threshold
+    [66, 33].forEach((threshold, i) => {
+      const index = events.indexOf(phaseChanges[i]);
+      const crossingHit = events[index - 1];
+      const hitsBefore = ofType(events.slice(0, index - 1), 'bossHit');
+      expect(crossingHit.type === 'bossHit' && crossingHit.bossHealth).toBeLessThanOrEqual(threshold);
+      expect(hitsBefore[hitsBefore.length - 1].bossHealth).toBeGreaterThan(threshold);
+    });
+  });
+
+  it('starts a resumed fight in the phase for its health', () => {
+    expect(createCombat(loadout('sword', 'steel', 'fire'), { seed: 1, initialBossHealth: 50 }).state.phase).toBe(1);
+    expect(createCombat(loadout('sword', 'steel', 'fire'), { seed: 1, initialBossHealth: 20 }).state.phase).toBe(2);
+  });
+
+  it.each<[StatusType, string]>([
+    ['burn', 'fire'],
+    ['slow', 'water'],
+    ['charm', 'love']
+  ])('lets %s wear off on schedule', (status, magic) => {
+    const { events } = simulateFight(loadout('fist', 'steel', magic), {
+      seed: 5,
+      config: ONE_STATUS_AT_A_TIME,
+      initialPlayerHealth: 10000,
+      maxDuration: 15
+    });
+
+    const [applied] = ofType(events, 'statusApplied');
+    const [expired] = ofType(events, 'statusExpired');
+    expect(applied.status).toBe(status);
+    expect(applied.time).toBeCloseTo(10);
+    expect(expired.status).toBe(status);
+    expect(expired.time - applied.time).toBeCloseTo(STATUS_EFFECTS[status].duration, 1);
+  });
+
+  it('burns the boss once a second while the burn lasts', () => {
+    const { events } = simulateFight(loadout('fist', 'steel', 'fire'), {
+      seed: 5,
+      config: ONE_STATUS_AT_A_TIME,
+      initialPlayerHealth: 10000,
+      maxDuration: 15
+    });
+
+    const burns = ofType(events, 'bossHit').filter(hit => hit.source === 'burn');
+    // Three ticks for a three second burn
+    expect(burns.map(hit => Math.round(hit.time))).toEqual([11, 12, 13]);
+    burns.forEach(hit => expect(hit.damage).toBe(STATUS_EFFECTS.burn.tickDamage));
+  });
+});
+
+describe('createCombat', () => {
+  it('catches up at most a quarter of a second after a long frame', () => {
+    const combat = createCombat(loadout('sword', 'steel', 'fire'), { seed: 1 });
+    combat.advance(10);
+
+    expect(combat.state.time).toBeCloseTo(0.25, 1);
+    expect(combat.state.tick).toBeLessThanOrEqual(Math.round(0.25 / FIXED_TIMESTEP));
+  });
+
+  it('runs the same steps whether frames are short or long', () => {
+    const cards = loadout('sword', 'steel', 'fire');
+    const smooth = createCombat(cards, { seed: 3 });
+    const choppy = createCombat(cards, { seed: 3 });
+
+    for (let i = 0; i < 120; i++) smooth.advance(1 / 60);
+    for (let i = 0; i < 10; i++) choppy.advance(0.2);
+
+    expect(Math.abs(choppy.state.tick - smooth.state.tick)).toBeLessThanOrEqual(1);
+    expect(choppy.state.bossHealth).toBe(smooth.state.bossHealth);
+  });
+});
@@ -0,0 +1,443 @@
+import { ArmourType, Loadout, StatusType } from '../types/game';
+import { getItem } from '../items/registry';
+import { Rng, createRng, randomInt, randomRange } from './rng';
+import { BossPhase, BOSS_PHASES, getBossPhaseIndex } from './phases';
+import { StatusEffect, STATUS_EFFECTS } from './statuses';
+import { Synergy, SYNERGIES, findSynergy } from './synergies';
+
+// The simulation always advances in steps of this size, regardless of frame rate
+export const FIXED_TIMESTEP = 1 / 60;
+
+// Longest frame we'll catch up on at once, so a backgrounded tab doesn't replay the whole fight
+const MAX_FRAME_DELTA = 0.25;
+
+export interface CombatConfig {
+  // Seconds between the player's automatic attacks on the boss
+  attackInterval: number;
+  baseDamage: number;
+  // Health thresholds and per-phase attack pacing
+  phases: BossPhase[];
+  // Seconds both sides hold off while the boss changes phase
+  phaseTransitionDuration: number;
+  bossDamageRange: [number, number];
+  // Minimum seconds between two boss hits landing
+  bossHitCooldown: number;
+  // Statuses the player's magic can inflict on the boss
+  statuses: Record<StatusType, StatusEffect>;
+  // Named card combinations with extra effects
+  synergies: Synergy[];
+  attackPatterns: {
+    projectile: ProjectilePattern;
+    slam: SlamPattern;
+  };
+}
+
+export interface ProjectilePattern {
+  // Relative chance of the boss picking this pattern
+  weight: number;
+  telegraph: number;
+  radius: number;
+  speed: number;
+}
+
+export interface SlamPattern {
+  weight: number;
+  telegraph: number;
+  radius: number;
+  // How long the impact lingers after landing (visual only, it hits once)
+  impactDuration: number;
+}
+
+export const DEFAULT_COMBAT_CONFIG: CombatConfig = {
+  attackInterval: 2.0,
+  baseDamage: 10,
+  phases: BOSS_PHASES,
+  phaseTransitionDuration: 1.5,
+  bossDamageRange: [14, 22],
+  bossHitCooldown: 0.4,
+  statuses: STATUS_EFFECTS,
+  synergies: SYNERGIES,
+  attackPatterns: {
+    projectile: { weight: 1, telegraph: 0.6, radius: 0.6, speed: 14 },
+    slam: { weight: 1, telegraph: 0.9, radius: 1.3, impactDuration: 0.3 }
+  }
+};
+
+// Half-width of the walkable bridge surface, used to keep attacks on the bridge
+const BRIDGE_HALF_WIDTH = 1.9;
+
+// Distance ahead of the player the boss is assumed to hover when no position is given
+const DEFAULT_BOSS_DISTANCE = 15;
+
+// Projectiles that get this far behind the player have been dodged
+const PROJECTILE_DESPAWN_DISTANCE = 2;
+
+export type BossAttackKind = 'projectile' | 'slam';
+
+// A telegraphed boss attack on the bridge, positioned in world x/z
+export interface BossAttack {
+  id: number;
+  kind: BossAttackKind;
+  x: number;
+  z: number;
+  radius: number;
+  // 'telegraph' is the warning before the attack can hurt; 'active' is when it can
+  phase: 'telegraph' | 'active';
+  // Seconds left in the current phase (projectiles stay active until they hit or pass)
+  timer: number;
+  telegraphDuration: number;
+}
+
+export interface ActiveStatus {
+  type: StatusType;
+  // Seconds until the status wears off
+  remaining: number;
+  duration: number;
+}
+
+export interface CombatInput {
+  playerPosition: { x: number; z: number };
+  bossPosition?: { x: number; z: number };
+}
+
+const IDLE_INPUT: CombatInput = { playerPosition: { x: 0, z: 0 } };
+
+export type CombatEvent =
+  | { type: 'bossHit'; time: number; damage: number; bossHealth: number; source: 'attack' | 'burn' }
+  | { type: 'playerHit'; time: number; damage: number; playerHealth: number; attackId: number }
+  | { type: 'attackTelegraphed'; time: number; attack: BossAttack }
+  | { type: 'attackLaunched'; time: number; attackId: number }
+  | { type: 'attackDodged'; time: number; attackId: number }
+  | { type: 'phaseChanged'; time: number; phase: number }
+  | { type: 'statusApplied'; time: number; status: StatusType; duration: number }
+  | { type: 'statusExpired'; time: number; status: StatusType }
+  | { type: 'bossDefeated'; time: number }
+  | { type: 'playerDefeated'; time: number };
+
+export interface CombatState {
+  tick: number;
+  time: number;
+  bossHealth: number;
+  playerHealth: number;
+  // Index into the configured boss phases
+  phase: number;
+  // Seconds left of the interstitial between phases, during which nobody attacks
+  phaseTransitionRemaining: number;
+  statuses: ActiveStatus[];
+  attacks: BossAttack[];
+  isOver: boolean;
+}
+
+export interface CombatOptions {
+  seed: number;
+  config?: Partial<CombatConfig>;
+  initialBossHealth?: number;
+  initialPlayerHealth?: number;
+}
+
+export interface Combat {
+  readonly state: CombatState;
+  // Feed in a real frame delta; runs as many fixed steps as fit and returns what happened
+  advance: (delta: number, input?: CombatInput) => CombatEvent[];
+  // Run exactly one fixed step
+  step: (input?: CombatInput) => CombatEvent[];
+}
+
+// Damage dealt to the boss per attack for a given loadout: item bonuses first, then multipliers
+export function calculateDamage(loadout: Loadout, baseDamage = DEFAULT_COMBAT_CONFIG.baseDamage): number {
+  const items = [loadout.weapon, loadout.armour, loadout.magic].map(id => getItem(id)?.stats ?? {});
+  const bonus = items.reduce((total, stats) => total + (stats.damageBonus ?? 0), 0);
+  const multiplier = items.reduce((total, stats) => total * (stats.damageMultiplier ?? 1), 1);
+
+  return Math.round((baseDamage + bonus) * multiplier);
+}
+
+export const hasStatus = (state: CombatState, type: StatusType): boolean =>
+  state.statuses.some(status => status.type === type);
+
+// Damage the player takes from a boss hit after their armour absorbs its share
+export function calculateBossDamage(armour: ArmourType, rawDamage: number, bonusReduction = 0): number {
+  const reduction = Math.min(0.9, (getItem(armour)?.stats.damageReduction ?? 0) + bonusReduction);
+  return Math.max(1, Math.round(rawDamage * (1 - reduction)));
+}
+
+const secondsToTicks = (seconds: number): number => Math.max(1, Math.round(seconds / FIXED_TIMESTEP));
+
+export function createCombat(loadout: Loadout, options: CombatOptions): Combat {
+  const config: CombatConfig = { ...DEFAULT_COMBAT_CONFIG, ...options.config };
+  const rng: Rng = createRng(options.seed);
+  const synergyEffects = findSynergy(loadout, config.synergies)?.effects ?? {};
+  const damage = Math.round(calculateDamage(loadout, config.baseDamage) * (synergyEffects.damageMultiplier ?? 1));
+
+  const attackTicks = secondsToTicks(config.attackInterval);
+  const rollBossAttackTicks = () =>
+    secondsToTicks(randomRange(rng, ...config.phases[state.phase].bossAttackIntervalRange));
+  const phaseTransitionTicks = secondsToTicks(config.phaseTransitionDuration);
+  const bossHitCooldownTicks = secondsToTicks(config.bossHitCooldown);
+  const { projectile, slam } = config.attackPatterns;
+  const statusType = getItem(loadout.magic)?.stats.status;
+  const baseStatus = statusType ? config.statuses[statusType] : null;
+  const magicStatus: StatusEffect | null = baseStatus && {
+    ...baseStatus,
+    chance: Math.min(1, baseStatus.chance + (synergyEffects.statusChanceBonus ?? 0)),
+    duration: baseStatus.duration * (synergyEffects.statusDurationMultiplier ?? 1)
+  };
+  const burnTicks = secondsToTicks(magicStatus?.tickInterval ?? 1);
+  const slowMultiplier = magicStatus?.speedMultiplier ?? 1;
+
+  const initialBossHealth = options.initialBossHealth ?? 100;
+  const state: CombatState = {
+    tick: 0,
+    time: 0,
+    bossHealth: initialBossHealth,
+    playerHealth: options.initialPlayerHealth ?? 100,
+    phase: getBossPhaseIndex(initialBossHealth, config.phases),
+    phaseTransitionRemaining: 0,
+    statuses: [],
+    attacks: [],
+    isOver: false
+  };
+
+  let nextAttackTick = attackTicks;
+  let nextBossAttackTick = rollBossAttackTicks();
+  let lastBossHitTick = -Infinity;
+  let phaseTransitionTicksLeft = 0;
+  let nextBurnTick = 0;
+  let nextAttackId = 1;
+  let accumulator = 0;
+
+  // Pick a pattern and aim it at where the player is standing right now
+  const launchBossAttack = (input: CombatInput): BossAttack => {
+    const { playerPosition } = input;
+    const bossZ = input.bossPosition?.z ?? playerPosition.z + DEFAULT_BOSS_DISTANCE;
+    const x = Math.max(-BRIDGE_HALF_WIDTH, Math.min(BRIDGE_HALF_WIDTH, playerPosition.x));
+    const useSlam = rng() * (projectile.weight + slam.weight) < slam.weight;
+
+    const attack: BossAttack = useSlam
+      ? { id: nextAttackId++, kind: 'slam', x, z: playerPosition.z, radius: slam.radius,
+          phase: 'telegraph', timer: slam.telegraph, telegraphDuration: slam.telegraph }
+      : { id: nextAttackId++, kind: 'projectile', x, z: bossZ, radius: projectile.radius,
+          phase: 'telegraph', timer: projectile.telegraph, telegraphDuration: projectile.telegraph };
+
+    state.attacks.push(attack);
+    return attack;
+  };
+
+  // Deal damage to the boss; returns true if it ended the fight or started a phase change
+  const damageBoss = (amount: number, source: 'attack' | 'burn', events: CombatEvent[]): boolean => {
+    state.bossHealth = Math.max(0, state.bossHealth - amount);
+    events.push({ type: 'bossHit', time: state.time, damage: amount, bossHealth: state.bossHealth, source });
+
+    if (state.bossHealth <= 0) {
+      state.isOver = true;
+      state.attacks = [];
+      state.statuses = [];
+      events.push({ type: 'bossDefeated', time: state.time });
+      return true;
+    }
+
+    // Crossing a health threshold starts the next phase, clearing any attacks in flight
+    const phase = getBossPhaseIndex(state.bossHealth, config.phases);
+    if (phase > state.phase) {
+      state.phase = phase;
+      state.attacks = [];
+      phaseTransitionTicksLeft = phaseTransitionTicks;
+      state.phaseTransitionRemaining = config.phaseTransitionDuration;
+      events.push({ type: 'phaseChanged', time: state.time, phase });
+      return true;
+    }
+    return false;
+  };
+
+  // The player's magic rides along on each hit
+  const applyMagicStatus = (events: CombatEvent[]) => {
+    if (!magicStatus || rng() >= magicStatus.chance) return;
+
+    const existing = state.statuses.find(status => status.type === magicStatus.type);
+    if (existing) {
+      existing.remaining = magicStatus.duration;
+    } else {
+      state.statuses.push({ type: magicStatus.type, remaining: magicStatus.duration, duration: magicStatus.duration });
+      if (magicStatus.type === 'burn') nextBurnTick = state.tick + burnTicks;
+    }
+    events.push({ type: 'statusApplied', time: state.time, status: magicStatus.type, duration: magicStatus.duration });
+  };
+
+  // Count statuses down; returns true if burn damage ended the fight or changed phase
+  const updateStatuses = (events: CombatEvent[]): boolean => {
+    const remaining: ActiveStatus[] = [];
+    for (const status of state.statuses) {
+      status.remaining -= FIXED_TIMESTEP;
+      if (status.remaining > 0) {
+        remaining.push(status);
+      } else {
+        events.push({ type: 'statusExpired', time: state.time, status: status.type });
+        // Charm holding the boss's next attack lets it go after a fresh wind-up
+        if (status.type === 'charm') nextBossAttackTick = Math.max(nextBossAttackTick, state.tick + rollBossAttackTicks());
+      }
+    }
+    state.statuses = remaining;
+
+    if (hasStatus(state, 'burn') && state.tick >= nextBurnTick) {
+      nextBurnTick = state.tick + burnTicks;
+      return damageBoss(magicStatus?.tickDamage ?? 0, 'burn', events);
+    }
+    return false;
+  };
+
+  const hitPlayer = (attack: BossAttack, events: CombatEvent[]) => {
+    // Brief invulnerability after a hit so overlapping attacks don't stack
+    if (state.tick - lastBossHitTick < bossHitCooldownTicks) return;
+
+    const rawDamage = randomInt(rng, ...config.bossDamageRange);
+    const hit = calculateBossDamage(loadout.armour, rawDamage, synergyEffects.damageReductionBonus);
+    state.playerHealth = Math.max(0, state.playerHealth - hit);
+    lastBossHitTick = state.tick;
+    events.push({ type: 'playerHit', time: state.time, damage: hit, playerHealth: state.playerHealth, attackId: attack.id });
+
+    if (state.playerHealth <= 0) {
+      state.isOver = true;
+      events.push({ type: 'playerDefeated', time: state.time });
+    }
+  };
+
+  const isTouchingPlayer = (attack: BossAttack, input: CombatInput): boolean => {
+    const dx = attack.x - input.playerPosition.x;
+    const dz = attack.z - input.playerPosition.z;
+    return dx * dx + dz * dz <= attack.radius * attack.radius;
+  };
+
+  // Move every live attack forward one step and resolve collisions with the player
+  const updateBossAttacks = (input: CombatInput, events: CombatEvent[]) => {
+    const remaining: BossAttack[] = [];
+
+    for (const attack of state.attacks) {
+      attack.timer -= FIXED_TIMESTEP;
+
+      if (attack.phase === 'telegraph') {
+        if (attack.timer > 0) {
+          remaining.push(attack);
+          continue;
+        }
+
+        attack.phase = 'active';
+        events.push({ type: 'attackLaunched', time: state.time, attackId: attack.id });
+
+        if (attack.kind === 'slam') {
+          // Slams land once, the moment the warning runs out
+          attack.timer = slam.impactDuration;
+          if (isTouchingPlayer(attack, input)) {
+            hitPlayer(attack, events);
+          } else {
+            events.push({ type: 'attackDodged', time: state.time, attackId: attack.id });
+          }
+        }
+        remaining.push(attack);
+        continue;
+      }
+
+      if (attack.kind === 'slam') {
+        if (attack.timer > 0) remaining.push(attack);
+        continue;
+      }
+
+      // Projectiles fly down the bridge towards the player's end, sluggishly if the boss is slowed
+      attack.z -= projectile.speed * FIXED_TIMESTEP * (hasStatus(state, 'slow') ? slowMultiplier : 1);
+
+      if (isTouchingPlayer(attack, input)) {
+        hitPlayer(attack, events);
+      } else if (attack.z < input.playerPosition.z - PROJECTILE_DESPAWN_DISTANCE) {
+        events.push({ type: 'attackDodged', time: state.time, attackId: attack.id });
+      } else {
+        remaining.push(attack);
+      }
+    }
+
+    state.attacks = remaining;
+  };
+
+  const step = (input: CombatInput = IDLE_INPUT): CombatEvent[] => {
+    if (state.isOver) return [];
+
+    const events: CombatEvent[] = [];
+    state.tick += 1;
+    state.time = state.tick * FIXED_TIMESTEP;
+
+    // Hold the fight while the boss transitions between phases, then restart both attack clocks
+    if (phaseTransitionTicksLeft > 0) {
+      phaseTransitionTicksLeft -= 1;
+      state.phaseTransitionRemaining = phaseTransitionTicksLeft * FIXED_TIMESTEP;
+      if (phaseTransitionTicksLeft === 0) {
+        nextAttackTick = state.tick + attackTicks;
+        nextBossAttackTick = state.tick + rollBossAttackTicks();
+      }
+      return events;
+    }
+
+    if (updateStatuses(events)) return events;
+
+    // Player's automatic attack on the boss
+    if (state.tick >= nextAttackTick) {
+      nextAttackTick += attackTicks;
+      if (damageBoss(damage, 'attack', events)) return events;
+      applyMagicStatus(events);
+    }
+
+    // Boss starts a new telegraphed attack, unless it's charmed
+    if (state.tick >= nextBossAttackTick && !hasStatus(state, 'charm')) {
+      nextBossAttackTick += rollBossAttackTicks();
+      const attack = launchBossAttack(input);
+      events.push({ type: 'attackTelegraphed', time: state.time, attack: { ...attack } });
+    }
+
+    updateBossAttacks(input, events);
+
+    return events;
+  };
+
+  const advance = (delta: number, input: CombatInput = IDLE_INPUT): CombatEvent[] => {
+    accumulator += Math.min(delta, MAX_FRAME_DELTA);
+
+    const events: CombatEvent[] = [];
+    while (accumulator >= FIXED_TIMESTEP) {
+      accumulator -= FIXED_TIMESTEP;
+      events.push(...step(input));
+    }
+    return events;
+  };
+
+  return { state, advance, step };
+}
+
+export interface FightTimeline {
+  events: CombatEvent[];
+  duration: number;
+  bossDefeated: boolean;
+  playerDefeated: boolean;
+  finalPlayerHealth: number;
+}
+
+export interface SimulationOptions extends CombatOptions {
+  maxDuration?: number;
+  // Scripted player movement; by default the player stands still at the start of the fight
+  input?: (state: CombatState) => CombatInput;
+}
+
+// Run a whole fight headlessly - same loadout, seed and input script always give the same timeline
+export function simulateFight(loadout: Loadout, options: SimulationOptions): FightTimeline {
+  const combat = createCombat(loadout, options);
+  const maxTicks = secondsToTicks(options.maxDuration ?? 300);
+  const events: CombatEvent[] = [];
+
+  while (!combat.state.isOver && combat.state.tick < maxTicks) {
+    events.push(...combat.step(options.input?.(combat.state)));
+  }
+
+  return {
+    events,
+    duration: combat.state.time,
+    bossDefeated: combat.state.bossHealth <= 0,
+    playerDefeated: combat.state.playerHealth <= 0,
+    finalPlayerHealth: combat.state.playerHealth
+  };
+}
@@ -0,0 +1,87 @@
+// The Mind's fight is split into phases that start as its health drops past each threshold
+export interface BossPhase {
+  // Boss health (0-100) at or below which this phase begins; the first phase should use 100
+  threshold: number;
+  // Shown in the UI header; the first word is highlighted
+  name: string;
+  // Seconds between the boss launching attack patterns in this phase
+  bossAttackIntervalRange: [number, number];
+  movement: {
+    minDistance: number;
+    maxDistance: number;
+    approachSpeed: number;
+    retreatSpeed: number;
+    dartApproachSpeed: number;
+    dartRetreatSpeed: number;
+    movementChangeInterval: [number, number];
+  };
+  // Colour blended into the magic particles and light, or null to keep the magic's own colour
+  particleTint: string | null;
+  music: {
+    // The least intense the music gets during this phase (0-1), however the fight is going
+    intensity: number;
+  };
+}
+
+export const BOSS_PHASES: BossPhase[] = [
+  {
+    threshold: 100,
+    name: 'THE MIND',
+    bossAttackIntervalRange: [0.8, 1.4],
+    movement: {
+      minDistance: 10,
+      maxDistance: 25,
+      approachSpeed: 1.2,
+      retreatSpeed: 0.8,
+      dartApproachSpeed: 2.0,
+      dartRetreatSpeed: 1.5,
+      movementChangeInterval: [3, 7]
+    },
+    particleTint: null,
+    music: { intensity: 0.2 }
+  },
+  {
+    threshold: 66,
+    name: 'THE RESTLESS MIND',
+    bossAttackIntervalRange: [0.7, 1.2],
+    movement: {
+      minDistance: 9,
+      maxDistance: 22,
+      approachSpeed: 1.5,
+      retreatSpeed: 1.0,
+      dartApproachSpeed: 2.4,
+      dartRetreatSpeed: 1.8,
+      movementChangeInterval: [2, 5]
+    },
+    particleTint: '#ff8800',
+    music: { intensity: 0.55 }
+  },
+  {
+    threshold: 33,
+    name: 'THE UNBOUND MIND',
+    bossAttackIntervalRange: [0.55, 1.0],
+    movement: {
+      minDistance: 8,
+      maxDistance: 18,
+      approachSpeed: 1.8,
+      retreatSpeed: 1.2,
+      dartApproachSpeed: 2.8,
+      dartRetreatSpeed: 2.2,
+      movementChangeInterval: [1.5, 3.5]
+    },
+    particleTint: '#ff0044',
+    music: { intensity: 0.85 }
+  }
+];
+
+// Index of the phase the boss is in at a given health
+export function getBossPhaseIndex(bossHealth: number, phases: BossPhase[] = BOSS_PHASES): number {
+  let index = 0;
+  phases.forEach((phase, i) => {
+    if (bossHealth <= phase.threshold) index = i;
+  });
+  return index;
+}
+
+export const getBossPhase = (bossHealth: number, phases: BossPhase[] = BOSS_PHASES): BossPhase =>
+  phases[getBossPhaseIndex(bossHealth, phases)];
@@ -0,0 +1,26 @@
+// Seedable pseudo-random number generator (mulberry32)
+// Returns floats in [0, 1) like Math.random, but the sequence is fully determined by the seed
+export type Rng = () => number;
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random float in [min, max)
+export const randomRange = (rng: Rng, min: number, max: number): number =>
+  min + rng() * (max - min);
+
+// Random integer in [min, max]
+export const randomInt = (rng: Rng, min: number, max: number): number =>
+  Math.floor(rng() * (max - min + 1)) + min;
+
+// A fresh seed for live games, where we want variety rather than repeatability
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
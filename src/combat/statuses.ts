@@ -0,0 +1,56 @@
+import { StatusType } from '../types/game';
+
+// A status the player's magic inflicts on the boss when attacks land (see each magic item's stats.status)
+export interface StatusEffect {
+  type: StatusType;
+  // Shown next to the boss health bar
+  name: string;
+  icon: string;
+  color: string;
+  // Seconds the status lasts; re-applying it refreshes the duration
+  duration: number;
+  // Chance (0-1) of each hit applying the status
+  chance: number;
+  // Burn: damage dealt to the boss every tick interval
+  tickDamage?: number;
+  tickInterval?: number;
+  // Slow: multiplier on the boss's approach/retreat speeds and its projectiles
+  speedMultiplier?: number;
+}
+
+export const STATUS_EFFECTS: Record<StatusType, StatusEffect> = {
+  burn: {
+    type: 'burn',
+    name: 'Burning',
+    icon: '🔥',
+    color: '#ff5500',
+    duration: 3,
+    chance: 1,
+    tickDamage: 2,
+    tickInterval: 1
+  },
+  slow: {
+    type: 'slow',
+    name: 'Soaked',
+    icon: '💧',
+    color: '#00aaff',
+    duration: 2.5,
+    chance: 1,
+    speedMultiplier: 0.4
+  },
+  charm: {
+    // Charm stops the boss launching attacks, so it can't be on every hit
+    type: 'charm',
+    name: 'Charmed',
+    icon: '💖',
+    color: '#ff00aa',
+    duration: 1.5,
+    chance: 0.35
+  }
+};
+
+// The numbers of a status a content pack may retune; its name, icon and colour stay
+export type StatusTuning = Partial<Pick<StatusEffect, 'duration' | 'chance' | 'tickDamage' | 'tickInterval' | 'speedMultiplier'>>;
+
+// Read statuses through here rather than STATUS_EFFECTS directly, so a pack's tuning is always seen
+export const getStatusEffect = (type: StatusType): StatusEffect => STATUS_EFFECTS[type];
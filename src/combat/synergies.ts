@@ -0,0 +1,87 @@
+import { Loadout } from '../types/game';
+import { getItem } from '../items/registry';
+
+// A named combination of cards that unlocks extra effects on top of the usual bonuses
+export interface Synergy {
+  id: string;
+  name: string;
+  // Cards that must all be in the loadout; unlisted slots can be anything
+  cards: Partial<Loadout>;
+  description: string;
+  // Replaces the usual "You have conquered your Mind" line on the Victory screen
+  victoryText: string;
+  effects: {
+    // Multiplies the damage of every player attack
+    damageMultiplier?: number;
+    // Added to the armour's share of each boss hit absorbed
+    damageReductionBonus?: number;
+    // Added to the chance of the magic's status landing
+    statusChanceBonus?: number;
+    // Multiplies how long the magic's status lasts
+    statusDurationMultiplier?: number;
+  };
+}
+
+// Checked in order; the first synergy the loadout matches is the one that applies
+export const SYNERGIES: Synergy[] = [
+  {
+    id: 'enlightenment',
+    name: 'Enlightenment',
+    cards: { armour: 'knowledge', magic: 'love' },
+    description: 'Charm lands more often and lasts longer',
+    victoryText: 'Your Mind has found Enlightenment',
+    effects: { statusChanceBonus: 0.25, statusDurationMultiplier: 1.5 }
+  },
+  {
+    id: 'wildfire',
+    name: 'Wildfire',
+    cards: { weapon: 'axe', magic: 'fire' },
+    description: 'Harder hits and longer burns',
+    victoryText: 'Your Mind has burned to ash',
+    effects: { damageMultiplier: 1.15, statusDurationMultiplier: 1.5 }
+  },
+  {
+    id: 'tempered-steel',
+    name: 'Tempered Steel',
+    cards: { armour: 'steel', magic: 'water' },
+    description: 'Armour absorbs more of every hit',
+    victoryText: 'Your Mind broke against your will',
+    effects: { damageReductionBonus: 0.15 }
+  },
+  {
+    id: 'golden-heart',
+    name: 'Golden Heart',
+    cards: { armour: 'gold', magic: 'love' },
+    description: 'Sturdier armour and a more charming smile',
+    victoryText: 'Your Mind has been won over',
+    effects: { damageReductionBonus: 0.1, statusChanceBonus: 0.15 }
+  },
+  {
+    id: 'scholars-blade',
+    name: "Scholar's Blade",
+    cards: { weapon: 'sword', armour: 'knowledge' },
+    description: 'Every strike finds a weak point',
+    victoryText: 'Your Mind has been out-thought',
+    effects: { damageMultiplier: 1.2 }
+  },
+  {
+    id: 'burning-fists',
+    name: 'Burning Fists',
+    cards: { weapon: 'fist', magic: 'fire' },
+    description: 'Bare-knuckle blows that set the Mind alight',
+    victoryText: 'Your Mind has been punched into submission',
+    effects: { damageMultiplier: 1.25 }
+  }
+];
+
+export function findSynergy(loadout: Partial<Loadout>, synergies: Synergy[] = SYNERGIES): Synergy | null {
+  return synergies.find(synergy =>
+    (Object.keys(synergy.cards) as (keyof Loadout)[]).every(slot => loadout[slot] === synergy.cards[slot])
+  ) ?? null;
+}
+
+// Names the cards involved, e.g. "Knowledge + Love = Enlightenment"
+export function describeSynergy(synergy: Synergy): string {
+  const cards = Object.values(synergy.cards).map(card => getItem(card)?.label ?? card);
+  return `${cards.join(' + ')} = ${synergy.name}`;
+}
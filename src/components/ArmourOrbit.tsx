@@ -3,6 +3,7 @@ import { useFrame, useThree } from '@react-three/fiber';
 import { useGLTF } from '@react-three/drei';
 import { Group, BoxGeometry, MeshStandardMaterial, Mesh } from 'three';
 import { ArmourType } from '../types/game';
+import { ITEMS, getItem } from '../items/registry';
 
 interface ArmourOrbitProps {
   armourType: ArmourType;
@@ -17,6 +18,7 @@ function ArmourOrbit({ armourType, bossDefeated = false, hasAllItems = false }:
   const [isAttacking, setIsAttacking] = useState(false);
   const [exitProgress, setExitProgress] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
+  const armour = getItem(armourType);
   
   // Detect mobile devices
   useEffect(() => {
@@ -37,20 +39,8 @@ function ArmourOrbit({ armourType, bossDefeated = false, hasAllItems = false }:
   
   // Load armor model in an effect to avoid conditional hook issues
   useEffect(() => {
-    let modelPath = '/models/steel.glb'; // Default placeholder for now
-    
-    // Select the correct model based on armor type
-    switch (armourType) {
-      case 'gold':
-        modelPath = '/models/gold.glb'; // Will be '/models/gold.glb'
-        break;
-      case 'steel':
-        modelPath = '/models/steel.glb'; // Will be '/models/steel.glb'
-        break;
-      case 'knowledge':
-        modelPath = '/models/book.glb'; // Will be '/models/book.glb'
-        break;
-    }
+    // Select the correct model for the armor
+    const modelPath = getItem(armourType)?.modelPath ?? '/models/steel.glb';
     
     try {
       // Load the GLTF model
@@ -118,10 +108,10 @@ function ArmourOrbit({ armourType, bossDefeated = false, hasAllItems = false }:
       armourRef.current.position.z = screenZ + Math.sin(time * attackSpeed) * 0.15;
       
       // Different rotation animation during attack based on armor type
-      if (armourType === 'steel') {
+      if (armour?.animation === 'sway') {
         // Steel armor should look sturdy and powerful
         armourRef.current.rotation.x = Math.sin(time * attackSpeed) * 0.2;
-      } else if (armourType === 'gold') {
+      } else if (armour?.animation === 'twirl') {
         // Gold armor can be flashier
         armourRef.current.rotation.y = Math.sin(time * attackSpeed) * 0.3;
       } else {
@@ -139,16 +129,8 @@ function ArmourOrbit({ armourType, bossDefeated = false, hasAllItems = false }:
   
   // Adjust scale based on armor type
   const getScale = () => {
-    switch (armourType) {
-      case 'gold':
-        return [0.2, 0.2, 0.2] as [number, number, number];
-      case 'steel':
-        return [0.2, 0.2, 0.2] as [number, number, number];
-      case 'knowledge':
-        return [0.3, 0.3, 0.3] as [number, number, number]; // Smaller scale for book
-      default:
-        return [0.3, 0.3, 0.3] as [number, number, number];
-    }
+    const scale = armour?.scale ?? 0.3;
+    return [scale, scale, scale] as [number, number, number];
   };
   
   return (
@@ -160,10 +142,9 @@ function ArmourOrbit({ armourType, bossDefeated = false, hasAllItems = false }:
 
 // Preload armor models with error handling
 try {
-  // Will use actual models when available
-  useGLTF.preload('/models/book.glb'); // Placeholder
-  useGLTF.preload('/models/gold.glb'); // Placeholder
-  useGLTF.preload('/models/steel.glb'); // Placeholder
+  ITEMS.forEach(item => {
+    if (item.category === 'armour' && item.modelPath) useGLTF.preload(item.modelPath);
+  });
 } catch (error) {
   console.error("Error preloading armor models:", error);
 }
@@ -0,0 +1,106 @@
+import { AudioChannel, AudioSettings, AUDIO_CHANNELS, ChannelSettings } from '../audio/audioSettings';
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  onOpenControls: () => void;
+  onClose: () => void;
+}
+
+const CHANNEL_LABELS: Record<AudioChannel, string> = {
+  master: 'Master',
+  music: 'Music',
+  sfx: 'Sound effects',
+  voice: 'Voice'
+};
+
+// Volume sliders and mute toggles for each channel plus the captions switch, opened with pause
+// (Esc by default) or the HUD button
+const AudioSettingsPanel = ({ settings, onChange, onOpenControls, onClose }: AudioSettingsPanelProps) => {
+  const updateChannel = (channel: AudioChannel, changes: Partial<ChannelSettings>) => {
+    onChange({ ...settings, [channel]: { ...settings[channel], ...changes } });
+  };
+
+  const buttonStyle = {
+    pointerEvents: 'auto' as const,
+    padding: '10px 24px',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    color: 'white',
+    background: 'rgba(0, 0, 0, 0.8)',
+    border: '1px solid rgba(255, 255, 255, 0.3)',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex flex-col items-center justify-center"
+      style={{ zIndex: 99999, backgroundColor: 'rgba(0, 0, 0, 0.6)' }}
+    >
+      <div
+        className="flex flex-col items-center"
+        style={{
+          padding: '24px 32px',
+          background: 'rgba(0, 0, 0, 0.7)',
+          border: '1px solid rgba(0, 191, 255, 0.4)',
+          borderRadius: '8px',
+          boxShadow: '0 0 20px rgba(0, 191, 255, 0.3)'
+        }}
+      >
+        <h2 className="text-3xl font-bold text-white mb-6" style={{ textShadow: '0 0 10px #00BFFF' }}>
+          Audio
+        </h2>
+        {AUDIO_CHANNELS.map(channel => {
+          const { volume, muted } = settings[channel];
+          return (
+            <div key={channel} className="flex items-center gap-4 mb-4 text-white" style={{ width: '360px' }}>
+              <label htmlFor={`volume-${channel}`} style={{ width: '120px' }}>
+                {CHANNEL_LABELS[channel]}
+              </label>
+              <input
+                id={`volume-${channel}`}
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(volume * 100)}
+                disabled={muted}
+                onChange={e => updateChannel(channel, { volume: Number(e.target.value) / 100 })}
+                style={{ flex: 1, opacity: muted ? 0.4 : 1 }}
+              />
+              <span style={{ width: '40px', textAlign: 'right', opacity: muted ? 0.4 : 1 }}>
+                {Math.round(volume * 100)}
+              </span>
+              <label className="flex items-center gap-1" style={{ cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={muted}
+                  onChange={e => updateChannel(channel, { muted: e.target.checked })}
+                />
+                Mute
+              </label>
+            </div>
+          );
+        })}
+        <label className="flex items-center gap-2 mb-4 text-white" style={{ width: '360px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={settings.captions}
+            onChange={e => onChange({ ...settings, captions: e.target.checked })}
+          />
+          Captions for speech and sounds
+        </label>
+        <div className="flex gap-4" style={{ marginTop: '8px' }}>
+          <button style={buttonStyle} onClick={onOpenControls}>
+            Controls
+          </button>
+          <button style={buttonStyle} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsPanel;
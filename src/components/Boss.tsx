@@ -2,19 +2,37 @@ import { useRef, useEffect, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useGLTF, Html } from '@react-three/drei';
 import { Group, Vector3, MathUtils, Color, PointLight, Mesh, SphereGeometry, MeshBasicMaterial, BufferGeometry, Points, PointsMaterial, Float32BufferAttribute, BoxGeometry } from 'three';
-import { GameState } from '../types/game';
+import { useGameState, gameStore, dispatch, gameActions } from '../store/gameStore';
+import { playerPosition } from '../store/positionStore';
+import { Combat, CombatEvent, createCombat, hasStatus } from '../combat/engine';
+import { randomSeed } from '../combat/rng';
+import { getStatusEffect } from '../combat/statuses';
+import { getItem } from '../items/registry';
+import { BOSS } from '../content/boss';
+import { audioManager, SoundHandle } from '../audio/audioManager';
+import { DISTANCE_CURVES } from '../audio/sounds';
+import { inputManager } from '../input/inputManager';
+import { RUMBLE } from '../input/backends';
+import { BossPhase, BOSS_PHASES, getBossPhase, getBossPhaseIndex } from '../combat/phases';
+import BossAttacks from './BossAttacks';
 
-interface BossProps {
-  playerPosition: { x: number, z: number };
-  gameState: GameState;
-  bossHealth: number;
-  updateBossHealth: (newHealth: number) => void;
+// Throb the boss's scale, used both while it dies and while it changes phase
+function pulseBoss(boss: Group, elapsedTime: number) {
+  const pulseFrequency = 5;
+  const pulseAmplitude = 1 + Math.sin(elapsedTime * pulseFrequency) * 0.5;
+  boss.scale.set(
+    3 * pulseAmplitude,
+    3 * pulseAmplitude,
+    3 * pulseAmplitude
+  );
 }
 
-function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossProps) {
+function Boss() {
+  const gameState = useGameState();
+  const bossPhaseIndex = getBossPhaseIndex(gameState.bossHealth);
   const bossRef = useRef<Group>(null);
   const effectsRef = useRef<Group>(null);
-  const { scene } = useGLTF('/models/brain.glb');
+  const { scene } = useGLTF(BOSS.modelPath);
   const [isDescending, setIsDescending] = useState(true);
   const [initialPosition] = useState(new Vector3(0, 15, 55));
   const [isDying, setIsDying] = useState(false);
@@ -22,20 +40,8 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
   const [showDamageEffect, setShowDamageEffect] = useState(false);
   const [showBossNameAnimation, setShowBossNameAnimation] = useState(false);
   const damageRef = useRef(0);
-  const bossAudioRef = useRef<HTMLAudioElement | null>(null);
-  
-  // Track health as local state instead of just a ref
-  const [localBossHealth, setLocalBossHealth] = useState(bossHealth);
-  
-  // Also keep ref for non-reactive contexts
-  const bossHealthRef = useRef(bossHealth);
-  
-  // Update our local state and ref whenever props change
-  useEffect(() => {
-    console.log(`Boss props health changed: ${bossHealth}, local health: ${localBossHealth}`);
-    bossHealthRef.current = bossHealth;
-    setLocalBossHealth(bossHealth);
-  }, [bossHealth]);
+  const [lastDamage, setLastDamage] = useState(0);
+  const bossAudioRef = useRef<SoundHandle | null>(null);
   
   // Effect particles for different magic types
   const [rainParticles, setRainParticles] = useState<Points | null>(null);
@@ -52,12 +58,8 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
     spinStartTime: 0
   });
   
-  // Combat system
-  const combatState = useRef({
-    lastAttackTime: 0,
-    attackInterval: 1.0, // Reduced from 1.5 to 1.0 for more frequent attacks
-    baseDamage: 10 // Increased from 5 to 10 for faster damage
-  });
+  // Combat simulation - created once the boss has finished descending
+  const combatRef = useRef<Combat | null>(null);
   
   // Dynamic movement tracking
   const movementState = useRef({
@@ -69,98 +71,98 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
     nextMovementChange: 0, // Time to change movement direction
     movementChangeInterval: [3, 7], // Range for movement change interval in seconds
     approachSpeed: 1.2, // Multiplier for approach speed
-    retreatSpeed: 0.8 // Multiplier for retreat speed
+    retreatSpeed: 0.8, // Multiplier for retreat speed
+    dartApproachSpeed: 2.0, // Approach speed during a quick dart
+    dartRetreatSpeed: 1.5 // Retreat speed during a quick dart
   });
   
+  // Whether the boss was pulsing between phases last frame
+  const isTransitioningRef = useRef(false);
+  
+  // Movement gets more aggressive as the boss moves through its phases
+  const applyPhaseMovement = (phase: BossPhase) => {
+    Object.assign(movementState.current, phase.movement);
+  };
+  
   // Target position in front of player (now dynamic)
   const targetHeight = 2.5; // Hover height above the bridge
 
-  // Setup boss audio
+  // Stop the hum when the boss unmounts
   useEffect(() => {
-    // Create audio element for boss sound
-    const audio = new Audio('/models/brain.mp3');
-    audio.loop = true;
-    audio.volume = 0.5;
-    bossAudioRef.current = audio;
-    
-    // Clean up audio when component unmounts
     return () => {
-      if (bossAudioRef.current) {
-        bossAudioRef.current.pause();
-        bossAudioRef.current = null;
-      }
+      bossAudioRef.current?.stop();
+      bossAudioRef.current = null;
     };
   }, []);
   
   // Handle audio playback based on boss state
   useEffect(() => {
-    // Start playing when boss has finished descending
-    if (!isDescending && !isDying && !isDefeated && bossAudioRef.current) {
-      // Try to play with a small delay after user interaction
-      setTimeout(() => {
-        if (bossAudioRef.current) {
-          // Set volume very low at first to prevent loud start
-          bossAudioRef.current.volume = 0.05;
-          bossAudioRef.current.play()
-            .then(() => {
-              console.log('Boss audio started successfully');
-              // Gradually increase volume
-              const fadeIn = setInterval(() => {
-                if (bossAudioRef.current && bossAudioRef.current.volume < 0.5) {
-                  bossAudioRef.current.volume += 0.05;
-                } else {
-                  clearInterval(fadeIn);
-                }
-              }, 200);
-            })
-            .catch(err => {
-              console.log('Failed to play boss audio - this is normal if user has not interacted yet:', err);
-              // We'll let background music play first, boss audio will try again later
-            });
-        }
+    // Start the hum shortly after the boss has finished descending, fading in to prevent a loud start
+    if (!isDescending && !isDying && !isDefeated && !bossAudioRef.current) {
+      const timer = setTimeout(() => {
+        bossAudioRef.current = audioManager.play(BOSS.humSound, {
+          loop: true,
+          volume: 0.5,
+          fadeIn: 2,
+          // Panned and attenuated by where The Mind hovers relative to the camera
+          position: bossRef.current?.position ?? { x: 0, y: targetHeight, z: 0 },
+          distance: DISTANCE_CURVES.bossHum
+        });
       }, 500);
+      
+      return () => clearTimeout(timer);
     }
     
-    // Stop audio when boss is defeated
-    if ((isDying || isDefeated) && bossAudioRef.current) {
-      // Gradually fade out audio
-      const fadeAudio = setInterval(() => {
-        if (bossAudioRef.current) {
-          if (bossAudioRef.current.volume > 0.05) {
-            bossAudioRef.current.volume -= 0.05;
-          } else {
-            bossAudioRef.current.pause();
-            clearInterval(fadeAudio);
-          }
-        } else {
-          clearInterval(fadeAudio);
-        }
-      }, 100);
-      
-      return () => clearInterval(fadeAudio);
+    // Fade the hum out when the boss is defeated
+    if (isDying || isDefeated) {
+      bossAudioRef.current?.stop(1);
+      bossAudioRef.current = null;
     }
   }, [isDescending, isDying, isDefeated]);
 
-  // Calculate damage based on player equipment
-  const calculateDamage = () => {
-    let damage = combatState.current.baseDamage;
-    
-    // Weapon bonus
-    if (gameState.weapon === 'axe') damage += 3;
-    else if (gameState.weapon === 'sword') damage += 2;
-    else if (gameState.weapon === 'fist') damage += 1;
-    
-    // Armor bonus
-    if (gameState.armour === 'steel') damage += 2;
-    else if (gameState.armour === 'gold') damage += 1;
-    else if (gameState.armour === 'knowledge') damage += 3;
+  // Start the fight once the boss has descended and the loadout is complete
+  useEffect(() => {
+    if (isDescending || combatRef.current) return;
     
-    // Magic multiplier
-    if (gameState.magic === 'fire') damage *= 1.5;
-    else if (gameState.magic === 'water') damage *= 1.2;
-    else if (gameState.magic === 'love') damage *= 1.3;
+    const { weapon, armour, magic, bossHealth, playerHealth } = gameStore.getState();
+    if (!weapon || !armour || !magic) return;
     
-    return Math.round(damage);
+    applyPhaseMovement(getBossPhase(bossHealth));
+    combatRef.current = createCombat(
+      { weapon, armour, magic },
+      { seed: randomSeed(), config: BOSS.stats, initialBossHealth: bossHealth, initialPlayerHealth: playerHealth }
+    );
+  }, [isDescending]);
+  
+  // Apply the simulation's output to the store and the scene
+  const handleCombatEvent = (event: CombatEvent, elapsedTime: number) => {
+    switch (event.type) {
+      case 'bossHit':
+        dispatch(gameActions.damageBoss(event.damage));
+        setLastDamage(event.damage);
+        setShowDamageEffect(true);
+        break;
+      case 'playerHit':
+        // Already reduced by armour in the simulation
+        dispatch(gameActions.damagePlayer(event.damage));
+        inputManager.rumble(RUMBLE.takeHit);
+        break;
+      case 'statusApplied':
+        dispatch(gameActions.applyBossStatus(event.status, event.duration, performance.now()));
+        break;
+      case 'statusExpired':
+        dispatch(gameActions.expireBossStatus(event.status));
+        break;
+      case 'phaseChanged':
+        applyPhaseMovement(BOSS_PHASES[event.phase]);
+        break;
+      case 'bossDefeated':
+        if (!isDying) {
+          setIsDying(true);
+          damageRef.current = elapsedTime;
+        }
+        break;
+    }
   };
 
   // Initial setup
@@ -284,31 +286,32 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
     if (fireParticles) fireParticles.visible = false;
     if (heartParticles) heartParticles.visible = false;
     
-    // Show effect based on selected magic
-    if (gameState.magic === 'water' && rainParticles) {
-      rainParticles.visible = true;
-      if (magicLightRef.current) {
-        magicLightRef.current.color = new Color(0x00aaff);
-        magicLightRef.current.intensity = 2;
-      }
-    } else if (gameState.magic === 'fire' && fireParticles) {
-      fireParticles.visible = true;
-      if (magicLightRef.current) {
-        magicLightRef.current.color = new Color(0xff5500);
-        magicLightRef.current.intensity = 3;
-      }
-    } else if (gameState.magic === 'love' && heartParticles) {
-      heartParticles.visible = true;
+    // Later phases bleed their own colour into the magic
+    const { particleTint } = BOSS_PHASES[bossPhaseIndex];
+    const tint = (color: string) => {
+      const tinted = new Color(color);
+      if (particleTint) tinted.lerp(new Color(particleTint), 0.5);
+      return tinted;
+    };
+    
+    // Show the particles and light the selected magic asks for
+    const effect = gameState.magic ? getItem(gameState.magic)?.effect : undefined;
+    const particles = { rain: rainParticles, embers: fireParticles, hearts: heartParticles };
+    const magicParticles = effect && particles[effect.particles];
+    if (effect && magicParticles) {
+      magicParticles.visible = true;
+      (magicParticles.material as PointsMaterial).color = tint(effect.color);
       if (magicLightRef.current) {
-        magicLightRef.current.color = new Color(0xff00aa);
-        magicLightRef.current.intensity = 2.5;
+        magicLightRef.current.color = tint(effect.color);
+        magicLightRef.current.intensity = effect.lightIntensity;
       }
     }
-  }, [gameState.magic, rainParticles, fireParticles, heartParticles]);
+  }, [gameState.magic, bossPhaseIndex, rainParticles, fireParticles, heartParticles]);
 
   // Animation loop
   useFrame((state, delta) => {
     if (!bossRef.current || !effectsRef.current) return;
+    const playerPos = playerPosition.get();
     
     // If boss is defeated, handle death animation
     if (isDefeated) {
@@ -323,13 +326,7 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
     
     // Death animation - pulsate before shooting up
     if (isDying) {
-      const pulseFrequency = 5;
-      const pulseAmplitude = 1 + Math.sin(state.clock.getElapsedTime() * pulseFrequency) * 0.5;
-      bossRef.current.scale.set(
-        3 * pulseAmplitude,
-        3 * pulseAmplitude,
-        3 * pulseAmplitude
-      );
+      pulseBoss(bossRef.current, state.clock.getElapsedTime());
       
       // After 3 seconds of pulsing, set to defeated
       if (state.clock.getElapsedTime() - damageRef.current > 3) {
@@ -339,6 +336,28 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
       return;
     }
     
+    // Step the combat simulation and react to whatever happened this frame.
+    // Boss attacks are aimed at, and collide with, the player's current spot on the bridge.
+    if (!isDescending && !isDying && combatRef.current) {
+      const elapsedTime = state.clock.getElapsedTime();
+      const input = {
+        playerPosition: playerPos,
+        bossPosition: { x: bossRef.current.position.x, z: bossRef.current.position.z }
+      };
+      combatRef.current.advance(delta, input).forEach(event => handleCombatEvent(event, elapsedTime));
+    }
+    
+    // Between phases the boss holds still and pulses, like its death throes
+    if (combatRef.current && combatRef.current.state.phaseTransitionRemaining > 0) {
+      isTransitioningRef.current = true;
+      pulseBoss(bossRef.current, state.clock.getElapsedTime());
+      return;
+    }
+    if (isTransitioningRef.current) {
+      isTransitioningRef.current = false;
+      bossRef.current.scale.set(3, 3, 3);
+    }
+    
     // Update dynamic movement distance once not descending
     if (!isDescending) {
       const currentTime = state.clock.getElapsedTime();
@@ -357,71 +376,43 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
         if (Math.random() < 0.3) {
           // Quick dart is faster approach followed by faster retreat
           if (movementState.current.isApproaching) {
-            movementState.current.approachSpeed = 2.0; // Faster approach
+            movementState.current.approachSpeed = movementState.current.dartApproachSpeed; // Faster approach
           } else {
-            movementState.current.retreatSpeed = 1.5; // Faster retreat
+            movementState.current.retreatSpeed = movementState.current.dartRetreatSpeed; // Faster retreat
           }
         } else {
-          // Reset to normal speeds
-          movementState.current.approachSpeed = 1.2;
-          movementState.current.retreatSpeed = 0.8;
+          // Reset to the current phase's normal speeds
+          const { approachSpeed, retreatSpeed } = BOSS_PHASES[bossPhaseIndex].movement;
+          movementState.current.approachSpeed = approachSpeed;
+          movementState.current.retreatSpeed = retreatSpeed;
         }
       }
       
+      // Water magic soaks the boss and slows its movement
+      const slowMultiplier = combatRef.current && hasStatus(combatRef.current.state, 'slow')
+        ? getStatusEffect('slow').speedMultiplier ?? 1
+        : 1;
+      
       // Gradually update the current distance based on approach/retreat
       if (movementState.current.isApproaching) {
         // Move closer to the player
         movementState.current.currentDistance = MathUtils.lerp(
           movementState.current.currentDistance,
           movementState.current.minDistance,
-          delta * movementState.current.approachSpeed
+          delta * movementState.current.approachSpeed * slowMultiplier
         );
       } else {
         // Move away from the player
         movementState.current.currentDistance = MathUtils.lerp(
           movementState.current.currentDistance,
           movementState.current.maxDistance,
-          delta * movementState.current.retreatSpeed
+          delta * movementState.current.retreatSpeed * slowMultiplier
         );
       }
     }
     
     // Calculate target position with dynamic distance
-    const playerForwardZ = playerPosition.z + movementState.current.currentDistance;
-    
-    // Calculate damage and attack at intervals if boss is active
-    if (!isDescending && !isDying && gameState.magic && gameState.weapon && gameState.armour) {
-      const currentTime = state.clock.getElapsedTime();
-      
-      if (currentTime - combatState.current.lastAttackTime > combatState.current.attackInterval) {
-        // Time for a new attack
-        const damage = calculateDamage();
-        
-        // Use local health state to ensure consistent updates
-        const newHealth = Math.max(0, localBossHealth - damage);
-        
-        console.log(`Boss taking damage: ${damage}, Current Health: ${localBossHealth} -> ${newHealth}`);
-        
-        // Update our local state immediately
-        setLocalBossHealth(newHealth);
-        
-        // Apply damage by updating parent health
-        updateBossHealth(newHealth);
-        
-        // Check if the boss is dying - need to check exactly zero to avoid floating point issues
-        if (newHealth <= 0 && !isDying) {
-          setIsDying(true);
-          damageRef.current = currentTime;
-          console.log('Boss dying triggered!');
-        }
-        
-        // Show damage effect
-        setShowDamageEffect(true);
-        
-        // Update last attack time
-        combatState.current.lastAttackTime = currentTime;
-      }
-    }
+    const playerForwardZ = playerPos.z + movementState.current.currentDistance;
     
     if (isDescending) {
       // Descent animation - move down gradually
@@ -436,7 +427,7 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
       // During descent, also start moving to be in front of player
       bossRef.current.position.x = MathUtils.lerp(
         bossRef.current.position.x, 
-        playerPosition.x, 
+        playerPos.x, 
         delta * 3
       );
       bossRef.current.position.z = MathUtils.lerp(
@@ -448,7 +439,7 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
       // Stay in front of player with smooth following - use dynamic distance
       bossRef.current.position.x = MathUtils.lerp(
         bossRef.current.position.x, 
-        playerPosition.x + (Math.sin(state.clock.getElapsedTime() * 0.8) * 3), // Add slight side-to-side movement
+        playerPos.x + (Math.sin(state.clock.getElapsedTime() * 0.8) * 3), // Add slight side-to-side movement
         delta * 5
       );
       bossRef.current.position.z = MathUtils.lerp(
@@ -466,6 +457,9 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
       // Position effects to follow the boss
       effectsRef.current.position.copy(bossRef.current.position);
       
+      // Keep the hum coming from where the boss is
+      bossAudioRef.current?.setPosition(bossRef.current.position);
+      
       // Animate rain particles (water magic)
       if (rainParticles && rainParticles.visible) {
         const positions = rainParticles.geometry.attributes.position.array;
@@ -540,8 +534,8 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
           spinState.current.spinStartTime = currentTime;
         } else {
           // Not spinning - face the player
-          const dx = playerPosition.x - bossRef.current.position.x;
-          const dz = playerPosition.z - bossRef.current.position.z;
+          const dx = playerPos.x - bossRef.current.position.x;
+          const dz = playerPos.z - bossRef.current.position.z;
           const targetAngle = Math.atan2(dx, dz);
           
           // Smoothly rotate to face player
@@ -582,9 +576,6 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
       const defeatTimer = setTimeout(() => {
         console.log('Boss is now fully defeated, hiding model');
         setIsDefeated(true);
-        
-        // Ensure the parent knows the boss is defeated
-        updateBossHealth(0);
       }, 4000); // 4 seconds for death animation
       
       return () => clearTimeout(defeatTimer);
@@ -596,29 +587,14 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
     if (isDefeated) {
       console.log('Boss is defeated, clearing all effects and sounds');
       
-      // Explicitly set health to 0 and mark as defeated again to ensure it's updated
-      console.log('Explicitly calling updateBossHealth(0) when boss is defeated');
-      updateBossHealth(0);
-      
       // Clear all particle effects
       setRainParticles(null);
       setFireParticles(null);
       setHeartParticles(null);
       
       // Stop boss audio with fade out
-      if (bossAudioRef.current) {
-        const fadeOut = setInterval(() => {
-          if (bossAudioRef.current && bossAudioRef.current.volume > 0.05) {
-            bossAudioRef.current.volume -= 0.05;
-          } else {
-            if (bossAudioRef.current) {
-              bossAudioRef.current.pause();
-              bossAudioRef.current.currentTime = 0;
-            }
-            clearInterval(fadeOut);
-          }
-        }, 50);
-      }
+      bossAudioRef.current?.stop(1);
+      bossAudioRef.current = null;
     }
   }, [isDefeated]);
 
@@ -638,12 +614,15 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
               animation: 'damageAnim 0.5s',
               fontFamily: 'Arial, sans-serif'
             }}>
-              {calculateDamage()}
+              {lastDamage}
             </div>
           </Html>
         )}
       </group>
       
+      {/* Telegraphed attacks on the bridge */}
+      <BossAttacks combatRef={combatRef} />
+      
       {/* Effects group */}
       <group ref={effectsRef}>
         <pointLight ref={magicLightRef} color="white" intensity={0} distance={15} />
@@ -664,6 +643,6 @@ function Boss({ playerPosition, gameState, bossHealth, updateBossHealth }: BossP
 }
 
 // Preload the model
-useGLTF.preload('/models/brain.glb');
+useGLTF.preload(BOSS.modelPath);
 
 export default Boss; 
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { useRef, MutableRefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Group, Mesh, MeshBasicMaterial, DoubleSide } from 'three';
+import { Combat, BossAttack } from '../combat/engine';
+
+interface BossAttacksProps {
+  combatRef: MutableRefObject<Combat | null>;
+}
+
+// More simultaneous attacks than the boss can realistically have in flight
+const POOL_SIZE = 6;
+
+// Length of the warning strip painted down the bridge ahead of a projectile
+const LANE_LENGTH = 20;
+
+// Renders the boss's telegraphed attacks straight from the combat simulation's state.
+// Meshes are pooled and updated imperatively so attacks never trigger React re-renders.
+function BossAttacks({ combatRef }: BossAttacksProps) {
+  const slamRefs = useRef<(Group | null)[]>([]);
+  const projectileRefs = useRef<(Group | null)[]>([]);
+
+  useFrame((state) => {
+    const attacks = combatRef.current?.state.attacks ?? [];
+    const slams = attacks.filter(attack => attack.kind === 'slam');
+    const projectiles = attacks.filter(attack => attack.kind === 'projectile');
+    const pulse = 0.5 + Math.sin(state.clock.getElapsedTime() * 20) * 0.5;
+
+    slamRefs.current.forEach((group, i) => {
+      if (group) updateSlam(group, slams[i], pulse);
+    });
+    projectileRefs.current.forEach((group, i) => {
+      if (group) updateProjectile(group, projectiles[i], pulse);
+    });
+  });
+
+  return (
+    <>
+      {Array.from({ length: POOL_SIZE }).map((_, i) => (
+        <group key={`slam-${i}`} ref={el => (slamRefs.current[i] = el)} visible={false}>
+          {/* Warning area that fills in as the slam charges */}
+          <mesh name="fill" rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]}>
+            <circleGeometry args={[1, 32]} />
+            <meshBasicMaterial color="#ff3366" transparent opacity={0.3} side={DoubleSide} depthWrite={false} />
+          </mesh>
+          {/* Outline of the full impact radius */}
+          <mesh name="ring" rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, 0]}>
+            <ringGeometry args={[0.9, 1, 48]} />
+            <meshBasicMaterial color="#ff3366" transparent opacity={0.9} side={DoubleSide} depthWrite={false} />
+          </mesh>
+        </group>
+      ))}
+
+      {Array.from({ length: POOL_SIZE }).map((_, i) => (
+        <group key={`projectile-${i}`} ref={el => (projectileRefs.current[i] = el)} visible={false}>
+          {/* Lane the projectile will travel down */}
+          <mesh name="lane" rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, -LANE_LENGTH / 2]}>
+            <planeGeometry args={[1, LANE_LENGTH]} />
+            <meshBasicMaterial color="#aa44ff" transparent opacity={0.25} side={DoubleSide} depthWrite={false} />
+          </mesh>
+          <mesh name="orb" position={[0, 1, 0]}>
+            <sphereGeometry args={[1, 16, 16]} />
+            <meshBasicMaterial color="#cc66ff" transparent opacity={0.9} />
+          </mesh>
+        </group>
+      ))}
+    </>
+  );
+}
+
+function updateSlam(group: Group, attack: BossAttack | undefined, pulse: number) {
+  group.visible = !!attack;
+  if (!attack) return;
+
+  group.position.set(attack.x, 0, attack.z);
+  group.scale.set(attack.radius, 1, attack.radius);
+
+  const fill = group.getObjectByName('fill') as Mesh;
+  const ring = group.getObjectByName('ring') as Mesh;
+  const fillMaterial = fill.material as MeshBasicMaterial;
+  const ringMaterial = ring.material as MeshBasicMaterial;
+
+  if (attack.phase === 'telegraph') {
+    // Fill grows from the centre until it covers the ring, then the slam lands
+    const progress = 1 - attack.timer / attack.telegraphDuration;
+    fill.scale.setScalar(Math.max(0.01, progress));
+    fillMaterial.opacity = 0.25;
+    ringMaterial.opacity = 0.5 + pulse * 0.5;
+  } else {
+    // Impact flash
+    fill.scale.setScalar(1);
+    fillMaterial.opacity = 0.8;
+    ringMaterial.opacity = 1;
+  }
+}
+
+function updateProjectile(group: Group, attack: BossAttack | undefined, pulse: number) {
+  group.visible = !!attack;
+  if (!attack) return;
+
+  group.position.set(attack.x, 0, attack.z);
+
+  const lane = group.getObjectByName('lane') as Mesh;
+  const orb = group.getObjectByName('orb') as Mesh;
+  const laneMaterial = lane.material as MeshBasicMaterial;
+
+  lane.scale.x = attack.radius * 2;
+
+  if (attack.phase === 'telegraph') {
+    // Orb charges up in front of the boss while the lane flashes
+    const progress = 1 - attack.timer / attack.telegraphDuration;
+    orb.scale.setScalar(Math.max(0.01, attack.radius * progress));
+    lane.visible = true;
+    laneMaterial.opacity = 0.15 + pulse * 0.25;
+  } else {
+    orb.scale.setScalar(attack.radius);
+    lane.visible = false;
+  }
+}
+
+export default BossAttacks;
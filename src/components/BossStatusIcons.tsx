@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { BossStatus } from '../types/game';
+import { getStatusEffect } from '../combat/statuses';
+
+interface BossStatusIconsProps {
+  statuses: BossStatus[];
+}
+
+// Icons for the statuses currently on the boss, each with a draining countdown
+function BossStatusIcons({ statuses }: BossStatusIconsProps) {
+  const [now, setNow] = useState(() => performance.now());
+
+  // Only tick while something is counting down
+  useEffect(() => {
+    if (statuses.length === 0) return;
+
+    const interval = setInterval(() => setNow(performance.now()), 100);
+    return () => clearInterval(interval);
+  }, [statuses.length]);
+
+  return (
+    <div style={{ display: 'flex', gap: '8px', marginTop: '6px', minHeight: '28px' }}>
+      {statuses.map(status => {
+        const effect = getStatusEffect(status.type);
+        const remaining = Math.max(0, status.duration - (now - status.appliedAt) / 1000);
+
+        return (
+          <div
+            key={status.type}
+            title={effect.name}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '2px 8px',
+              borderRadius: '4px',
+              background: 'rgba(0, 0, 0, 0.6)',
+              border: `1px solid ${effect.color}`,
+              boxShadow: `0 0 6px ${effect.color}`,
+              color: 'white',
+              fontFamily: 'Arial, sans-serif',
+              fontSize: '14px',
+              fontWeight: 'bold'
+            }}
+          >
+            <span>{effect.icon}</span>
+            <span style={{ minWidth: '30px' }}>{remaining.toFixed(1)}s</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default BossStatusIcons;
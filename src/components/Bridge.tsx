@@ -2,24 +2,12 @@ import React, { useRef, useState, useEffect } from 'react';
 import { Mesh, Vector3, DoubleSide, Shape, ExtrudeGeometry, RepeatWrapping, TextureLoader, MeshStandardMaterial, Texture, Scene } from 'three';
 import { Text, useTexture, Html } from '@react-three/drei';
 import { useFrame, useLoader, useThree } from '@react-three/fiber';
-import { GameState } from '../types/game';
-import { PortalManager } from './PortalManager';
-
-interface BridgeProps {
-  gameState: GameState;
-}
-
-interface CardData {
-  position: [number, number, number];
-  label: string;
-  color: string;
-  texture: string;
-}
-
-interface StageData {
-  title: string;
-  cards: CardData[];
-}
+import { useGameState, gameStore, dispatch, gameActions } from '../store/gameStore';
+import { playerPosition } from '../store/positionStore';
+import { PortalManager, PortalEvent } from './PortalManager';
+import { PORTALS, isPortalUnlocked } from '../portal/portalNetwork';
+import { encodeLoadoutParams } from '../portal/portalLoadout';
+import { STAGES, getStageCards, getStageZ } from '../items/registry';
 
 interface TitleBackgroundProps {
   children: React.ReactNode;
@@ -133,10 +121,19 @@ function RailingMesh({ position, texture }: RailingMeshProps) {
   );
 }
 
-function Bridge({ gameState }: BridgeProps) {
+interface BridgeProps {
+  // Portal entry events, e.g. to ask for confirmation or fade out the music before leaving
+  onPortalEvent?: (event: PortalEvent) => void;
+}
+
+function Bridge({ onPortalEvent }: BridgeProps) {
+  const gameState = useGameState();
   const bridgeRef = useRef<Mesh>(null);
   const { scene, camera } = useThree();
   const [portalManager, setPortalManager] = useState<PortalManager | null>(null);
+  // The portal manager outlives re-renders, so it reads the latest handler through a ref
+  const onPortalEventRef = useRef(onPortalEvent);
+  onPortalEventRef.current = onPortalEvent;
   
   // Load and configure textures
   const groundTexture = useLoader(TextureLoader, '/models/ground.png');
@@ -156,48 +153,55 @@ function Bridge({ gameState }: BridgeProps) {
   // Initialize portals on mount
   useEffect(() => {
     // Create portal manager - using an empty object for socket since it's optional
-    const manager = new PortalManager(scene, camera, {});
+    const manager = new PortalManager(scene, camera, {}, {
+      // Arrive at the next game as hurt as we left this one, and bring the loadout back with us
+      getPlayerParams: () => {
+        const state = gameStore.getState();
+        return { hp: Math.max(1, state.playerHealth), extra: encodeLoadoutParams(state) };
+      },
+      // Checkpoint portals move the player along the bridge, briefly invulnerable so they don't land on a card
+      onInGameDestination: (destination) => {
+        if (destination.type !== 'checkpoint') return;
+        dispatch(gameActions.setInvulnerable(true));
+        dispatch(gameActions.moveTo(destination.position.x, destination.position.z));
+      },
+      onEvent: (event) => onPortalEventRef.current?.(event)
+    });
     
-    // Get ref URL from query parameters if it exists
-    const urlParams = new URLSearchParams(window.location.search);
-    const comingFromPortal = urlParams.get('portal') === 'true';
-    
-    // Create start portal at the beginning of the bridge
-    // If coming from a portal, this acts as the return portal
-    const startPortalOptions = comingFromPortal 
-      ? { labelText: 'Return' } 
-      : { labelText: 'Go Back' };
-    
-    // Position start portal within the new player movement range (-20 to 250)
-    // Set to z=-10 so it's clearly behind the player but within movement range
-    const startPortal = manager.createStartPortal(0, 0.1, -10, 2.5, startPortalOptions);
-    
-    // Rotate the portal to face the player
-    if (startPortal) {
-      startPortal.rotation.y = Math.PI; // Rotate 180 degrees to face toward positive Z
-    }
-    
-    // Create exit portal after the third stage (weapon, armor, magic stages)
-    // Stage positions start at z=10 with 15 unit intervals between stages
-    // Positioning it closer but still after all the stages
-    manager.createExitPortal(0, 0.1, 100, 2.5, { labelText: 'To Vibeverse' });
+    // Every portal in the network, hidden until it unlocks
+    PORTALS.forEach(config => {
+      manager.addPortal(config);
+      manager.setPortalLocked(config.id, !isPortalUnlocked(config, gameStore.getState()));
+    });
     
     setPortalManager(manager);
     
     return () => {
-      // Clean up if needed
+      // Take the portals out of the scene and free their geometries and textures
+      manager.dispose();
     };
   }, [scene, camera]);
   
-  // Check for portal collisions each frame
-  useFrame(() => {
-    if (portalManager && gameState.position) {
-      // Convert gameState position to object with y (assuming y is character height)
+  // Show portals as their unlock conditions are met
+  useEffect(() => {
+    if (!portalManager) return;
+    PORTALS.forEach(config => {
+      portalManager.setPortalLocked(config.id, !isPortalUnlocked(config, gameState));
+    });
+  }, [portalManager, gameState]);
+  
+  // Animate the portals and check for portal collisions each frame
+  useFrame((state, delta) => {
+    portalManager?.update(delta, state.camera);
+
+    if (portalManager) {
+      // Convert the live position to object with y (assuming y is character height)
+      const { x, z } = playerPosition.get();
       const playerPos = {
         position: {
-          x: gameState.position.x,
+          x,
           y: 1, // Assuming character height is around 1 unit
-          z: gameState.position.z
+          z
         }
       };
       
@@ -205,33 +209,15 @@ function Bridge({ gameState }: BridgeProps) {
     }
   });
 
-  // Card data for each stage - lowered y position to 0.1 from 0.3
-  const stageData: StageData[] = [
-    {
-      title: "WEAPON",
-      cards: [
-        { position: [-2, 0.42, 0], label: "Sword", color: "#ff0000", texture: "/models/card-sword.png" },
-        { position: [0, 0.32, 0], label: "Fist", color: "#00ff00", texture: "/models/card-fists.png" },
-        { position: [2, 0.42, 0], label: "Axe", color: "#0000ff", texture: "/models/card-axe.png" }
-      ]
-    },
-    {
-      title: "ARMOUR",
-      cards: [
-        { position: [-2, 0.42, 0], label: "Steel", color: "#ff0000", texture: "/models/card-steel.png" },
-        { position: [0, 0.32, 0], label: "Knowledge", color: "#00ff00", texture: "/models/card-knowledge.png" },
-        { position: [2, 0.42, 0], label: "Gold", color: "#0000ff", texture: "/models/card-gold.png" }
-      ]
-    },
-    {
-      title: "MAGIC",
-      cards: [
-        { position: [-2, 0.42, 0], label: "Fire", color: "#ff0000", texture: "/models/card-fire.png" },
-        { position: [0, 0.32, 0], label: "Water", color: "#00ff00", texture: "/models/card-water.png" },
-        { position: [2, 0.42, 0], label: "Love", color: "#0000ff", texture: "/models/card-love.png" }
-      ]
-    }
-  ];
+  // Card data for each stage comes from the item registry - the centre card sits slightly lower
+  const stageData = STAGES.map((stage, index) => ({
+    title: stage.title,
+    cards: getStageCards(index).map(({ item, x }) => ({
+      position: [x, x === 0 ? 0.32 : 0.42, 0] as [number, number, number],
+      label: item.label,
+      texture: item.cardTexture
+    }))
+  }));
 
   return (
     <group>
@@ -264,16 +250,12 @@ function Bridge({ gameState }: BridgeProps) {
       </mesh>
       
       {/* Stage markers */}
-      {[0, 1, 2].map((stage) => {
-        // Check if this stage should be hidden (based on game progression)
-        const isStageHidden = (stage === 0 && gameState.weapon !== null) ||
-                              (stage === 1 && gameState.armour !== null) ||
-                              (stage === 2 && gameState.magic !== null);
-
-        if (isStageHidden) return null;
+      {STAGES.map(({ category }, stage) => {
+        // Hide the stage once its card has been picked (based on game progression)
+        if (gameState[category] !== null) return null;
 
         return (
-          <group key={stage} position={[0, 0, 10 + stage * 15]}>
+          <group key={stage} position={[0, 0, getStageZ(stage)]}>
             {/* Stage title with background */}
             <TitleBackground width={2.5} height={0.8} position={[0, 2.5, 0]}>
               <Html
@@ -300,7 +282,7 @@ function Bridge({ gameState }: BridgeProps) {
             {stageData[stage].cards.map((card, index) => {
               // Calculate the card's actual x position based on its relative position and the stage
               const cardX = card.position[0];
-              const cardZ = 10 + stage * 15 + card.position[2];
+              const cardZ = getStageZ(stage) + card.position[2];
               
               // Check if this card has been collected
               const isCollected = gameState.collectedBlocks.some(
@@ -0,0 +1,27 @@
+import { useCaptions } from '../audio/captions';
+
+// Subtitles and sound labels, just above the bottom of the HUD
+const Captions = () => {
+  const captions = useCaptions();
+  if (captions.length === 0) return null;
+
+  return (
+    <div
+      className="fixed left-0 right-0 flex flex-col items-center gap-2"
+      style={{ bottom: '90px', zIndex: 10000, pointerEvents: 'none' }}
+      aria-live="polite"
+    >
+      {captions.map(caption => (
+        <div
+          key={caption.id}
+          className="ui-label"
+          style={caption.kind === 'sound' ? { fontStyle: 'italic', fontWeight: 'normal', opacity: 0.85 } : undefined}
+        >
+          {caption.text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Captions;
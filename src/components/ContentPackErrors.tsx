@@ -0,0 +1,50 @@
+interface ContentPackErrorsProps {
+  errors: string[];
+}
+
+// Shown instead of the game when the ?pack= content pack can't be loaded or doesn't match the schema
+const ContentPackErrors = ({ errors }: ContentPackErrorsProps) => {
+  // Same page without the pack, so the player can fall back to the default realm
+  const params = new URLSearchParams(window.location.search);
+  params.delete('pack');
+  const query = params.toString();
+  const defaultUrl = `${window.location.pathname}${query ? `?${query}` : ''}`;
+
+  return (
+    <div
+      className="w-screen h-screen flex items-center justify-center"
+      style={{ background: '#0b0b1a', fontFamily: 'Arial, sans-serif' }}
+    >
+      <div
+        className="text-white"
+        style={{
+          maxWidth: '720px',
+          padding: '24px 32px',
+          background: 'rgba(0, 0, 0, 0.8)',
+          border: '1px solid rgba(255, 51, 51, 0.6)',
+          borderRadius: '8px',
+          boxShadow: '0 0 20px rgba(255, 0, 0, 0.3)'
+        }}
+      >
+        <h1 className="text-2xl font-bold mb-2" style={{ textShadow: '0 0 10px red' }}>
+          This content pack can't be loaded
+        </h1>
+        <p className="mb-4" style={{ opacity: 0.8 }}>
+          Fix the following and reload the page:
+        </p>
+        <ul className="mb-6" style={{ maxHeight: '50vh', overflowY: 'auto' }}>
+          {errors.map((error, i) => (
+            <li key={i} style={{ fontFamily: 'monospace', fontSize: '14px', marginBottom: '6px', color: '#ffaaaa' }}>
+              {error}
+            </li>
+          ))}
+        </ul>
+        <a href={defaultUrl} className="font-bold" style={{ color: '#00BFFF' }}>
+          Play the default Cloud Realm instead
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default ContentPackErrors;
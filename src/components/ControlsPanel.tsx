@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { ACTION_LABELS, BINDABLE_ACTIONS, BindableAction, DEFAULT_BINDINGS, formatBinding, InputDevice, rebind } from '../input/bindings';
+import { inputManager, useInputBindings } from '../input/inputManager';
+
+interface ControlsPanelProps {
+  onBack: () => void;
+  onClose: () => void;
+}
+
+const DEVICES: InputDevice[] = ['keyboard', 'gamepad'];
+
+const DEVICE_LABELS: Record<InputDevice, string> = {
+  keyboard: 'Keyboard',
+  gamepad: 'Gamepad'
+};
+
+// The binding of every action on the keyboard and gamepad. Clicking one waits for the next key or
+// button and binds that instead.
+const ControlsPanel = ({ onBack, onClose }: ControlsPanelProps) => {
+  const bindings = useInputBindings();
+  // The binding waiting for a press, if any
+  const [listening, setListening] = useState<{ device: InputDevice; action: BindableAction } | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    const { device, action } = listening;
+    const cancel = inputManager.captureNext(device, input => {
+      inputManager.setBindings(rebind(inputManager.getBindings(), device, action, input));
+      setListening(null);
+    });
+    return cancel;
+  }, [listening]);
+
+  const handleReset = () => {
+    setListening(null);
+    inputManager.setBindings(DEFAULT_BINDINGS);
+  };
+
+  const buttonStyle = {
+    pointerEvents: 'auto' as const,
+    padding: '10px 24px',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    color: 'white',
+    background: 'rgba(0, 0, 0, 0.8)',
+    border: '1px solid rgba(255, 255, 255, 0.3)',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
+  const bindingStyle = {
+    ...buttonStyle,
+    width: '140px',
+    padding: '4px 8px',
+    fontSize: '14px'
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex flex-col items-center justify-center"
+      style={{ zIndex: 99999, backgroundColor: 'rgba(0, 0, 0, 0.6)' }}
+    >
+      <div
+        className="flex flex-col items-center"
+        style={{
+          padding: '24px 32px',
+          background: 'rgba(0, 0, 0, 0.7)',
+          border: '1px solid rgba(0, 191, 255, 0.4)',
+          borderRadius: '8px',
+          boxShadow: '0 0 20px rgba(0, 191, 255, 0.3)',
+          maxHeight: '90vh',
+          overflowY: 'auto'
+        }}
+      >
+        <h2 className="text-3xl font-bold text-white mb-6" style={{ textShadow: '0 0 10px #00BFFF' }}>
+          Controls
+        </h2>
+        <div className="flex items-center gap-4 mb-2 text-white font-bold">
+          <span style={{ width: '160px' }} />
+          {DEVICES.map(device => (
+            <span key={device} style={{ width: '140px', textAlign: 'center' }}>
+              {DEVICE_LABELS[device]}
+            </span>
+          ))}
+        </div>
+        {BINDABLE_ACTIONS.map(action => (
+          <div key={action} className="flex items-center gap-4 mb-2 text-white">
+            <span style={{ width: '160px' }}>{ACTION_LABELS[action]}</span>
+            {DEVICES.map(device => {
+              const isListening = listening?.device === device && listening.action === action;
+              const bound = bindings[device][action] as (string | number)[];
+              return (
+                <button
+                  key={device}
+                  style={{ ...bindingStyle, borderColor: isListening ? '#00BFFF' : bindingStyle.border }}
+                  onClick={() => setListening(isListening ? null : { device, action })}
+                >
+                  {isListening
+                    ? (device === 'keyboard' ? 'Press a key…' : 'Press a button…')
+                    : bound.map(input => formatBinding(device, input)).join(' / ') || '—'}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+        <p className="text-white text-sm mt-2 mb-4" style={{ opacity: 0.7 }}>
+          The left stick and the on-screen joystick always move as well.
+        </p>
+        <div className="flex gap-4">
+          <button style={buttonStyle} onClick={onBack}>
+            Back
+          </button>
+          <button style={buttonStyle} onClick={handleReset}>
+            Reset
+          </button>
+          <button style={buttonStyle} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsPanel;
@@ -0,0 +1,127 @@
+import { useEffect, useState, useCallback } from 'react';
+import { ButtonAction, formatBinding } from '../input/bindings';
+import { inputManager, useInputBindings } from '../input/inputManager';
+
+interface DefeatProps {
+  onRetry: () => void;
+  onRestart: () => void;
+}
+
+const Defeat = ({ onRetry, onRestart }: DefeatProps) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const [fadeOut, setFadeOut] = useState(false);
+  const bindings = useInputBindings();
+  const keyLabel = (action: ButtonAction) => bindings.keyboard[action].map(code => formatBinding('keyboard', code)).join(' / ');
+
+  // Fade out, then hand over to the chosen handler
+  const choose = useCallback((handler: () => void) => {
+    if (fadeOut) return;
+    setFadeOut(true);
+
+    setTimeout(() => {
+      handler();
+    }, 1000);
+  }, [fadeOut]);
+
+  // Retry (R) fights again with the same loadout, restart (Space) goes back to the beginning of the bridge
+  const handleAction = useCallback((action: ButtonAction) => {
+    if (!showOptions) return;
+
+    if (action === 'retry') {
+      choose(onRetry);
+    } else if (action === 'restart') {
+      choose(onRestart);
+    }
+  }, [showOptions, choose, onRetry, onRestart]);
+
+  // Set up input action listener
+  useEffect(() => {
+    return inputManager.onAction(handleAction);
+  }, [handleAction]);
+
+  // Give the defeat a moment to sink in before offering a way out
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setShowOptions(true);
+    }, 2500);
+
+    return () => clearTimeout(timer);
+  }, []);
+
+  const buttonStyle = {
+    pointerEvents: 'auto' as const,
+    padding: '12px 28px',
+    fontSize: '20px',
+    fontWeight: 'bold',
+    color: 'white',
+    background: 'rgba(0, 0, 0, 0.8)',
+    border: '1px solid rgba(255, 255, 255, 0.3)',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 flex flex-col items-center justify-center ${fadeOut ? 'opacity-0' : 'opacity-100'}`}
+      style={{
+        transition: 'opacity 1s ease-out',
+        zIndex: 99999,
+        backgroundColor: 'rgba(20, 0, 0, 0.7)'
+      }}
+    >
+      {/* Dark overlay with some transparency */}
+      <div className="absolute inset-0 bg-black bg-opacity-60" />
+
+      {/* Defeat text with animation */}
+      <div
+        className="relative mb-8 text-center"
+        style={{
+          animation: 'defeatTextAppear 1.5s ease-out forwards'
+        }}
+      >
+        <h1
+          className="text-6xl font-bold text-white mb-4"
+          style={{
+            textShadow: '0 0 15px red, 0 0 25px red, 0 0 35px red'
+          }}
+        >
+          DEFEAT
+        </h1>
+        <h2
+          className="text-3xl font-bold text-white h-12" // Fixed height to prevent layout shift
+          style={{
+            textShadow: '0 0 10px white, 0 0 15px white'
+          }}
+        >
+          Your Mind has conquered you
+        </h2>
+      </div>
+
+      {/* Retry / restart options */}
+      <div
+        className="relative flex gap-6"
+        style={{
+          opacity: showOptions ? 1 : 0,
+          transition: 'opacity 0.8s ease-in'
+        }}
+      >
+        <button style={buttonStyle} disabled={!showOptions} onClick={() => choose(onRetry)}>
+          Retry ({keyLabel('retry')})
+        </button>
+        <button style={buttonStyle} disabled={!showOptions} onClick={() => choose(onRestart)}>
+          Restart ({keyLabel('restart')})
+        </button>
+      </div>
+
+      {/* CSS for animations */}
+      <style dangerouslySetInnerHTML={{ __html: `
+        @keyframes defeatTextAppear {
+          0% { transform: scale(2); opacity: 0; }
+          100% { transform: scale(1); opacity: 1; }
+        }
+      `}} />
+    </div>
+  );
+};
+
+export default Defeat;
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { inboundPortal } from '../portal/portalParams';
 
 interface IntroMessagesProps {
   onComplete: () => void;
@@ -6,12 +7,13 @@ interface IntroMessagesProps {
 
 const IntroMessages = ({ onComplete }: IntroMessagesProps) => {
   // Check if there's a ref parameter in the URL
-  const urlParams = new URLSearchParams(window.location.search);
-  const hasRefParam = urlParams.has('ref');
+  const hasRefParam = inboundPortal.ref !== undefined;
 
   // Define messages array conditionally based on ref parameter
   const messages = [
-    "Welcome to the Cloud Realm...",
+    inboundPortal.username
+      ? `Welcome to the Cloud Realm, ${inboundPortal.username}...`
+      : "Welcome to the Cloud Realm...",
     "Use WASD to move around...",
     // Only include the return portal message if there's a ref parameter
     ...(hasRefParam ? ["Turn around to return to the portal..."] : []),
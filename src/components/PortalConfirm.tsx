@@ -0,0 +1,74 @@
+import { useEffect, useCallback } from 'react';
+
+interface PortalConfirmProps {
+  // The portal's label, e.g. "To Vibeverse"
+  destination: string;
+  onLeave: () => void;
+  onStay: () => void;
+}
+
+// Asked before a portal takes the player out of the game
+const PortalConfirm = ({ destination, onLeave, onStay }: PortalConfirmProps) => {
+  // Enter or Y leaves, Escape or N stays
+  const handleKeyPress = useCallback((e: KeyboardEvent) => {
+    if (e.code === 'Enter' || e.code === 'KeyY') {
+      onLeave();
+    } else if (e.code === 'Escape' || e.code === 'KeyN') {
+      onStay();
+    }
+  }, [onLeave, onStay]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyPress);
+    return () => {
+      window.removeEventListener('keydown', handleKeyPress);
+    };
+  }, [handleKeyPress]);
+
+  const buttonStyle = {
+    pointerEvents: 'auto' as const,
+    padding: '10px 24px',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    color: 'white',
+    background: 'rgba(0, 0, 0, 0.8)',
+    border: '1px solid rgba(255, 255, 255, 0.3)',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex flex-col items-center justify-center"
+      style={{ zIndex: 99999, pointerEvents: 'none' }}
+    >
+      <div
+        className="flex flex-col items-center"
+        style={{
+          padding: '24px 32px',
+          background: 'rgba(0, 0, 0, 0.7)',
+          border: '1px solid rgba(0, 255, 0, 0.4)',
+          borderRadius: '8px',
+          boxShadow: '0 0 20px rgba(0, 255, 0, 0.3)'
+        }}
+      >
+        <h2 className="text-3xl font-bold text-white mb-2" style={{ textShadow: '0 0 10px #00ff00' }}>
+          Leave Cloud Realm?
+        </h2>
+        <p className="text-lg text-white mb-6" style={{ opacity: 0.8 }}>
+          "{destination}" will take you out of the game
+        </p>
+        <div className="flex gap-4">
+          <button style={buttonStyle} onClick={onLeave}>
+            Leave (Enter)
+          </button>
+          <button style={buttonStyle} onClick={onStay}>
+            Stay (Esc)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortalConfirm;
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+
+interface PortalErrorProps {
+  message: string;
+  onComplete: () => void;
+}
+
+// How long the message stays up before fading away
+const MESSAGE_DURATION = 3000;
+
+// Shown when a portal has nowhere to go, or its destination can't be reached
+const PortalError = ({ message, onComplete }: PortalErrorProps) => {
+  const [fadeOut, setFadeOut] = useState(false);
+
+  useEffect(() => {
+    const fadeTimer = setTimeout(() => setFadeOut(true), MESSAGE_DURATION);
+    const doneTimer = setTimeout(onComplete, MESSAGE_DURATION + 500);
+
+    return () => {
+      clearTimeout(fadeTimer);
+      clearTimeout(doneTimer);
+    };
+  }, [onComplete]);
+
+  return (
+    <div
+      className="fixed inset-x-0 flex justify-center pointer-events-none"
+      style={{
+        top: '20%',
+        zIndex: 9000,
+        opacity: fadeOut ? 0 : 1,
+        transition: 'opacity 0.5s ease'
+      }}
+    >
+      <div
+        className="text-white text-center"
+        style={{
+          maxWidth: '560px',
+          padding: '15px 30px',
+          background: 'rgba(0, 0, 0, 0.8)',
+          border: '1px solid rgba(255, 51, 51, 0.6)',
+          borderRadius: '5px',
+          fontFamily: 'Arial, sans-serif',
+          fontSize: '18px'
+        }}
+      >
+        {message}
+      </div>
+    </div>
+  );
+};
+
+export default PortalError;
@@ -0,0 +1,333 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { PortalEvent, PortalLocation, PortalManager } from './PortalManager';
+import { PortalConfig } from '../portal/portalNetwork';
+import { AudioManager, SoundHandle } from '../audio/audioManager';
+
+// A stand-in for window.location that records where the portals try to send the player
+function createLocation(search = '', host = 'cloud.example', pathname = '/play') {
+  return { search, host, pathname, assign: vi.fn<(url: string) => void>() } satisfies PortalLocation;
+}
+
+const portalConfig = (overrides: Partial<PortalConfig> = {}): PortalConfig => ({
+  id: 'test',
+  position: { x: 0, y: 0.1, z: 10 },
+  radius: 2.5,
+  color: 0x00ff00,
+  label: 'Test portal',
+  destination: { type: 'checkpoint', position: { x: 0, z: 50 } },
+  ...overrides
+});
+
+const at = (z: number, x = 0) => ({ position: { x, y: 1, z } });
+
+// Stand at a position for a while, a frame at a time, the way Bridge.tsx drives the manager
+function stand(manager: PortalManager, player: ReturnType<typeof at>, seconds: number) {
+  for (let t = 0; t < seconds; t += 0.1) {
+    manager.checkPortalCollisions(player);
+    manager.update(0.1);
+  }
+}
+
+// Let pending preflight promises settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('PortalManager', () => {
+  let scene: THREE.Scene;
+  let events: PortalEvent[];
+  let managers: PortalManager[];
+
+  const createManager = (options: ConstructorParameters<typeof PortalManager>[3] = {}) => {
+    const manager = new PortalManager(scene, new THREE.PerspectiveCamera(), {}, {
+      preflight: false,
+      prefetch: false,
+      onEvent: event => events.push(event),
+      ...options
+    });
+    managers.push(manager);
+    return manager;
+  };
+
+  beforeEach(() => {
+    // jsdom has no 2d canvas, so portals are built without their text labels
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    scene = new THREE.Scene();
+    events = [];
+    managers = [];
+  });
+
+  afterEach(() => {
+    managers.forEach(manager => manager.dispose());
+    vi.restoreAllMocks();
+  });
+
+  describe('checkPortalCollisions', () => {
+    it('sends the player to an in-game destination once they stand in the portal', () => {
+      const onInGameDestination = vi.fn();
+      const manager = createManager({ onInGameDestination });
+      manager.addPortal(portalConfig());
+
+      stand(manager, at(10), 2);
+
+      expect(onInGameDestination).toHaveBeenCalledTimes(1);
+      expect(onInGameDestination).toHaveBeenCalledWith(portalConfig().destination, 'test');
+      expect(events.map(event => event.type)).toEqual(['transitionStarted', 'transitionFinished']);
+    });
+
+    it('ignores players outside the portal', () => {
+      const onInGameDestination = vi.fn();
+      const manager = createManager({ onInGameDestination });
+      manager.addPortal(portalConfig());
+
+      stand(manager, at(0), 2);
+      stand(manager, at(10, 6), 2);
+
+      expect(onInGameDestination).not.toHaveBeenCalled();
+      expect(events).toEqual([]);
+    });
+
+    it('debounces a player passing straight through', () => {
+      const manager = createManager();
+      manager.addPortal(portalConfig());
+
+      stand(manager, at(10), 0.1);
+      stand(manager, at(20), 1);
+
+      expect(events).toEqual([]);
+    });
+
+    it('ignores locked portals', () => {
+      const onInGameDestination = vi.fn();
+      const manager = createManager({ onInGameDestination });
+      manager.addPortal(portalConfig());
+      manager.setPortalLocked('test', true);
+
+      stand(manager, at(10), 2);
+
+      expect(onInGameDestination).not.toHaveBeenCalled();
+    });
+
+    it("doesn't enter again until the player steps out", () => {
+      const onInGameDestination = vi.fn();
+      const manager = createManager({ onInGameDestination });
+      manager.addPortal(portalConfig());
+
+      stand(manager, at(10), 4);
+      expect(onInGameDestination).toHaveBeenCalledTimes(1);
+
+      stand(manager, at(0), 0.5);
+      stand(manager, at(10), 2);
+      expect(onInGameDestination).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits for confirmation and cancels when the player walks away', () => {
+      const location = createLocation('?ref=home.example');
+      const manager = createManager({ location });
+      manager.addPortal(portalConfig({ destination: { type: 'return' }, confirm: true }));
+
+      stand(manager, at(10), 1);
+      expect(events.map(event => event.type)).toEqual(['confirmRequested']);
+
+      stand(manager, at(0), 0.2);
+      expect(events.map(event => event.type)).toEqual(['confirmRequested', 'confirmCancelled']);
+      expect(location.assign).not.toHaveBeenCalled();
+    });
+
+    it('leaves once the player confirms', () => {
+      const location = createLocation('?ref=home.example');
+      const manager = createManager({ location });
+      manager.addPortal(portalConfig({ destination: { type: 'return' }, confirm: true }));
+
+      stand(manager, at(10), 1);
+      const request = events[0];
+      if (request.type !== 'confirmRequested') throw new Error('expected a confirmation request');
+      request.confirm();
+      stand(manager, at(10), 2);
+
+      expect(location.assign).toHaveBeenCalledWith('https://home.example');
+    });
+  });
+
+  describe('return portal', () => {
+    it('adds https to a bare ref and passes the other params back', () => {
+      const location = createLocation('?ref=home.example/game&username=amy&custom=1');
+      const manager = createManager({ location });
+
+      expect(manager.getReturnUrl()).toBe('https://home.example/game?username=amy&custom=1');
+    });
+
+    it('keeps the protocol a ref already has', () => {
+      const location = createLocation('?ref=' + encodeURIComponent('http://home.example/game'));
+      const manager = createManager({ location });
+
+      expect(manager.getReturnUrl()).toBe('http://home.example/game');
+    });
+
+    it('keeps a query the ref already has', () => {
+      const location = createLocation('?ref=' + encodeURIComponent('home.example/?level=2') + '&portal=true');
+      const manager = createManager({ location });
+
+      expect(manager.getReturnUrl()).toBe('https://home.example/?level=2&portal=true');
+    });
+
+    it('navigates back through the portal', () => {
+      const location = createLocation('?ref=home.example&color=red');
+      const manager = createManager({ location });
+      manager.addPortal(portalConfig({ destination: { type: 'return' } }));
+
+      stand(manager, at(10), 2);
+
+      expect(location.assign).toHaveBeenCalledWith('https://home.example?color=red');
+    });
+  });
+
+  describe('no-return message', () => {
+    it('explains there is nowhere to go when there is no ref', () => {
+      const location = createLocation();
+      const manager = createManager({ location });
+      manager.addPortal(portalConfig({ destination: { type: 'return' }, confirm: true }));
+
+      stand(manager, at(10), 2);
+
+      expect(manager.getReturnUrl()).toBeNull();
+      expect(events).toEqual([
+        { type: 'entryFailed', portal: expect.objectContaining({ id: 'test' }), message: 'No destination to return to...' }
+      ]);
+      expect(location.assign).not.toHaveBeenCalled();
+    });
+
+    it('is only shown once while the player stays in the portal', () => {
+      const manager = createManager({ location: createLocation() });
+      manager.addPortal(portalConfig({ destination: { type: 'return' } }));
+
+      stand(manager, at(10), 5);
+
+      expect(events.filter(event => event.type === 'entryFailed')).toHaveLength(1);
+    });
+  });
+
+  describe('exit params', () => {
+    const exitParams = (manager: PortalManager) =>
+      new URL(manager.getExitUrl('https://hub.example/')).searchParams;
+
+    it('sends the default player details and a ref back here', () => {
+      const params = exitParams(createManager({ location: createLocation() }));
+
+      expect(params.get('portal')).toBe('true');
+      expect(params.get('username')).toMatch(/^player_\d+$/);
+      expect(params.get('color')).toBe('white');
+      expect(params.get('speed')).toBe('3');
+      expect(params.get('ref')).toBe('cloud.example/play');
+    });
+
+    it('carries inbound params on, including ones it does not know', () => {
+      const location = createLocation('?portal=true&username=amy&color=red&speed=5&team=blue&avatar_url=a.png&custom=1');
+      const params = exitParams(createManager({ location }));
+
+      expect(params.get('username')).toBe('amy');
+      expect(params.get('color')).toBe('red');
+      expect(params.get('speed')).toBe('5');
+      expect(params.get('team')).toBe('blue');
+      expect(params.get('avatar_url')).toBe('a.png');
+      expect(params.get('custom')).toBe('1');
+      expect(params.getAll('portal')).toEqual(['true']);
+    });
+
+    it("replaces inbound params with the player's current ones", () => {
+      const location = createLocation('?hp=100&cloudrealm_weapon=axe&custom=1');
+      const manager = createManager({
+        location,
+        getPlayerParams: () => ({ hp: 40, extra: [['cloudrealm_weapon', 'sword']] })
+      });
+      const params = exitParams(manager);
+
+      expect(params.get('hp')).toBe('40');
+      expect(params.getAll('cloudrealm_weapon')).toEqual(['sword']);
+      expect(params.get('custom')).toBe('1');
+    });
+
+    it('uses the socket id as the username when there is one', () => {
+      const manager = new PortalManager(scene, new THREE.PerspectiveCamera(), { id: 'socket-42' }, {
+        location: createLocation()
+      });
+      managers.push(manager);
+
+      expect(new URL(manager.getExitUrl('https://hub.example/')).searchParams.get('username')).toBe('socket-42');
+    });
+
+    it('goes to the hub by default', () => {
+      const manager = createManager({ location: createLocation(), hubUrl: 'https://hub.example/' });
+
+      expect(manager.getExitUrl()).toMatch(/^https:\/\/hub\.example\/\?portal=true&/);
+    });
+  });
+
+  describe('preflight', () => {
+    it("reports a destination that doesn't respond instead of leaving", async () => {
+      const location = createLocation();
+      const fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      const manager = createManager({ location, preflight: { fetch } });
+      manager.addPortal(portalConfig({ destination: { type: 'vibeverse', url: 'https://partner.example/' } }));
+
+      stand(manager, at(10), 0.5);
+      await flush();
+      stand(manager, at(10), 2);
+
+      expect(fetch).toHaveBeenCalledWith(expect.stringMatching(/^https:\/\/partner\.example\/\?/), expect.anything());
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'entryFailed', message: expect.stringContaining('Failed to fetch') })
+      ]);
+      expect(location.assign).not.toHaveBeenCalled();
+    });
+
+    it('leaves once the destination responds', async () => {
+      const location = createLocation();
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+      const manager = createManager({ location, preflight: { fetch } });
+      manager.addPortal(portalConfig({ destination: { type: 'vibeverse', url: 'https://partner.example/' } }));
+
+      stand(manager, at(10), 0.5);
+      await flush();
+      stand(manager, at(10), 2);
+
+      expect(location.assign).toHaveBeenCalledWith(expect.stringMatching(/^https:\/\/partner\.example\/\?portal=true/));
+    });
+  });
+
+  describe('ambient sound', () => {
+    it('plays a loop from the portal, silenced while locked and stopped on removal', () => {
+      const sound = { playing: true, setVolume: vi.fn(), setPlaybackRate: vi.fn(), setPosition: vi.fn(), stop: vi.fn(), onStop: vi.fn() } satisfies SoundHandle;
+      const audio = { play: vi.fn<AudioManager['play']>().mockReturnValue(sound) };
+      const manager = createManager({ audio });
+      manager.addPortal(portalConfig({ ambientSound: '/hum.wav', ambientDistance: { maxDistance: 10 } }));
+
+      expect(audio.play).toHaveBeenCalledWith('/hum.wav', expect.objectContaining({
+        loop: true,
+        position: { x: 0, y: 0.1, z: 10 },
+        distance: expect.objectContaining({ maxDistance: 10 })
+      }));
+
+      manager.setPortalLocked('test', true);
+      expect(sound.setVolume).toHaveBeenLastCalledWith(0, expect.any(Number));
+
+      manager.removePortal('test');
+      expect(sound.stop).toHaveBeenCalled();
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('removes portals from the scene by id and on dispose', () => {
+      const manager = createManager();
+      const first = manager.addPortal(portalConfig({ id: 'first' }));
+      const second = manager.addPortal(portalConfig({ id: 'second', position: { x: 0, y: 0.1, z: 30 } }));
+
+      expect(manager.removePortal('first')).toBe(true);
+      expect(manager.removePortal('first')).toBe(false);
+      expect(scene.children).not.toContain(first);
+      expect(scene.children).toContain(second);
+
+      manager.dispose();
+      expect(scene.children).toEqual([]);
+    });
+  });
+});
@@ -1,44 +1,197 @@
 import * as THREE from "three";
+import {
+  PortalParams,
+  PORTAL_HUB_URL,
+  DEFAULT_PORTAL_SPEED,
+  buildPortalUrl,
+  parsePortalParams,
+} from "../portal/portalParams";
+import {
+  PortalConfig,
+  PortalDestination,
+  leavesGame,
+} from "../portal/portalNetwork";
+import {
+  PreflightOptions,
+  addPrefetchHints,
+  preflightDestination,
+} from "../portal/preflight";
+import { AudioManager, SoundHandle, audioManager } from "../audio/audioManager";
+import { DISTANCE_CURVES } from "../audio/sounds";
+
+// How long the player has to stand in a portal before it takes them
+const ENTRY_DEBOUNCE = 0.25;
+
+// Seconds the warp takes before the destination, and to fade back in after an in-game one
+const TRANSITION_DURATION = 1.2;
+const ARRIVAL_DURATION = 0.6;
+
+// Volume of a portal's ambient loop at close range
+const AMBIENT_VOLUME = 0.6;
+
+// What the player is doing with the portals, advanced each frame by update()
+type PortalEntryState =
+  | { status: "idle" }
+  // Standing in a portal, waiting out the debounce
+  | { status: "touching"; portalId: string; elapsed: number }
+  // Waiting for the player to answer the confirmation
+  | { status: "confirming"; portalId: string }
+  // Making sure another site is reachable before warping to it
+  | { status: "checking"; portalId: string; url: string }
+  // Warping toward the destination - a url means leaving the game
+  | {
+      status: "transitioning";
+      portalId: string;
+      elapsed: number;
+      url: string | null;
+    }
+  // Navigating away; the warp stays on screen until the page goes
+  | { status: "leaving"; portalId: string }
+  // Fading back in after an in-game destination
+  | { status: "arriving"; portalId: string; elapsed: number }
+  // Has to step out of the portal before it can be entered again
+  | { status: "blocked"; portalId: string };
+
+export type PortalEvent =
+  | {
+      type: "confirmRequested";
+      portal: PortalConfig;
+      confirm: () => void;
+      cancel: () => void;
+    }
+  | { type: "confirmCancelled"; portal: PortalConfig }
+  // Sent when the warp starts, so the game can save and fade out music before a departure
+  | {
+      type: "transitionStarted";
+      portal: PortalConfig;
+      duration: number;
+      leavesGame: boolean;
+    }
+  | { type: "transitionFinished"; portal: PortalConfig }
+  // There was nowhere to go back to, or the destination didn't respond
+  | { type: "entryFailed"; portal: PortalConfig; message: string };
+
+// Add https if not present
+const normalizeRefUrl = (ref: string): string =>
+  ref.startsWith("http://") || ref.startsWith("https://") ? ref : "https://" + ref;
 
 interface PortalOptions {
   labelText?: string;
   labelColor?: string;
+  labelPlacement?: "above" | "front";
 }
 
-interface PortalUserData {
-  particlesGeometry: THREE.BufferGeometry;
-  type: "entrance" | "exit";
+interface PortalManagerOptions {
+  // Where 'vibeverse' portals without their own url lead, defaults to the Vibeverse hub
+  hubUrl?: string;
+  // Current player details to send through the exit portal, e.g. hp. Any extra params
+  // replace inbound ones with the same key.
+  getPlayerParams?: () => Partial<PortalParams>;
+  // Called for destinations inside the game, e.g. to move the player to a checkpoint
+  onInGameDestination?: (destination: PortalDestination, portalId: string) => void;
+  // Everything that happens as the player enters a portal
+  onEvent?: (event: PortalEvent) => void;
+  // How other sites are checked before leaving, or false to go without checking
+  preflight?: Partial<PreflightOptions> | false;
+  // Hint the browser to fetch other sites' pages while the player makes their way there
+  prefetch?: boolean;
+  // Where the page is and how to leave it, defaults to window.location
+  location?: PortalLocation;
+  // Plays the portals' ambient loops, defaults to the shared audio manager
+  audio?: Pick<AudioManager, 'play'>;
+}
+
+// The parts of window.location the portals read and drive, so tests can swap in a fake
+export interface PortalLocation {
+  readonly search: string;
+  readonly host: string;
+  readonly pathname: string;
+  assign(url: string): void;
 }
 
 interface PortalWrapper extends THREE.Group {
   userData: {
     portal: THREE.Group;
+    particles: THREE.Points;
     particlesGeometry: THREE.BufferGeometry;
-    type: "entrance" | "exit";
   };
 }
 
+// A portal in the scene, with the collision box used to detect the player entering it
+interface ManagedPortal {
+  config: PortalConfig;
+  wrapper: PortalWrapper;
+  box: THREE.Box3;
+  // Locked portals are hidden and can't be entered
+  locked: boolean;
+  // Takes the portal's prefetch hints back out of the document
+  removeHints: () => void;
+  // The portal's ambient loop, if it has one
+  ambient: SoundHandle | null;
+}
+
 export class PortalManager {
   private scene: THREE.Scene;
   private camera: THREE.Camera;
   private socket: any; // TODO: Replace with proper socket type
-  private startPortal: PortalWrapper | null;
-  private exitPortal: PortalWrapper | null;
-  private startPortalBox: THREE.Box3 | null;
-  private exitPortalBox: THREE.Box3 | null;
+  private portals: Map<string, ManagedPortal>;
+  // Seconds of animation so far, advanced by update()
+  private elapsed: number;
   private playerCheckInterval: ReturnType<typeof setTimeout> | null;
-
-  constructor(scene: THREE.Scene, camera: THREE.Camera, socket: any) {
+  private options: PortalManagerOptions;
+  private hubUrl: string;
+  private location: PortalLocation;
+  private entryState: PortalEntryState;
+  // The portal the player was standing in at the last collision check
+  private touchingPortalId: string | null;
+  // Sphere around the camera that fills the view with the portal's colour during the warp
+  private warpSphere: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    socket: any,
+    options: PortalManagerOptions = {}
+  ) {
     this.scene = scene;
     this.camera = camera;
     this.socket = socket;
-    this.startPortal = null;
-    this.exitPortal = null;
-    this.startPortalBox = null;
-    this.exitPortalBox = null;
+    this.portals = new Map();
+    this.elapsed = 0;
     this.playerCheckInterval = null;
+    this.options = options;
+    this.hubUrl = options.hubUrl ?? PORTAL_HUB_URL;
+    this.location = options.location ?? window.location;
+    this.entryState = { status: "idle" };
+    this.touchingPortalId = null;
+
+    this.warpSphere = new THREE.Mesh(
+      new THREE.SphereGeometry(0.5, 16, 16),
+      new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity: 0,
+        side: THREE.BackSide,
+        depthTest: false,
+      })
+    );
+    this.warpSphere.renderOrder = 999;
+    this.warpSphere.visible = false;
+    this.scene.add(this.warpSphere);
+
+    window.addEventListener("pageshow", this.handlePageShow);
   }
 
+  // Coming back with the browser's back button restores the page mid-warp, so fade back in
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (event.persisted && this.entryState.status === "leaving") {
+      this.entryState = {
+        status: "arriving",
+        portalId: this.entryState.portalId,
+        elapsed: 0,
+      };
+    }
+  };
+
   // Create a portal mesh with proper alignment and origin at bottom
   createPortalMesh(
     radius = 6,
@@ -77,6 +230,7 @@ export class PortalManager {
     const particlesGeometry = new THREE.BufferGeometry();
     const particlePositions = new Float32Array(particleCount * 3);
     const particleColors = new Float32Array(particleCount * 3);
+    const baseColor = new THREE.Color(color);
 
     for (let i = 0; i < particleCount * 3; i += 3) {
       // Create particles in a ring around the portal
@@ -89,17 +243,10 @@ export class PortalManager {
       particlePositions[i + 2] = (Math.random() - 0.5) * (radius * 0.15); // z (small depth variation)
 
       // Set color with slight variation
-      if (color === 0xff0000) {
-        // Red portal
-        particleColors[i] = 0.8 + Math.random() * 0.2;
-        particleColors[i + 1] = 0;
-        particleColors[i + 2] = 0;
-      } else {
-        // Green portal
-        particleColors[i] = 0;
-        particleColors[i + 1] = 0.8 + Math.random() * 0.2;
-        particleColors[i + 2] = 0;
-      }
+      const brightness = 0.8 + Math.random() * 0.2;
+      particleColors[i] = baseColor.r * brightness;
+      particleColors[i + 1] = baseColor.g * brightness;
+      particleColors[i + 2] = baseColor.b * brightness;
     }
 
     particlesGeometry.setAttribute(
@@ -123,38 +270,32 @@ export class PortalManager {
 
     // Store particles for animation
     portal.userData = {
+      particles: particles,
       particlesGeometry: particlesGeometry,
-      type: color === 0xff0000 ? "entrance" : "exit",
     };
 
-    // Set default label text based on portal type
-    const defaultLabelText =
-      portal.userData.type === "entrance" ? "Go back" : "To Vibeverse";
-
-    // Get label text from options or use default
-    const labelText = options.labelText || defaultLabelText;
+    const labelText = options.labelText;
+    const labelAbove = options.labelPlacement === "above";
 
     // Create a wrapper container with origin at bottom
     const wrapper = new THREE.Group() as PortalWrapper;
 
-    // Add label if text is provided
-    if (labelText) {
-      const canvas = document.createElement("canvas");
-      const context = canvas.getContext("2d");
-      if (!context) return wrapper; // Skip label creation if context is null
-
+    // Add label if text is provided, skipping it if there's no 2d context
+    // (the portal itself still has to be added to the wrapper below)
+    const canvas = labelText ? document.createElement("canvas") : null;
+    const context = canvas?.getContext("2d");
+    if (labelText && canvas && context) {
       // Increase canvas size for larger text
       canvas.width = 1024;
       canvas.height = 128;
 
       // Get label color from options or use portal color
-      const labelColor =
-        options.labelColor || (color === 0xff0000 ? "#ff0000" : "#00ff00");
+      const labelColor = options.labelColor || baseColor.getStyle();
 
       context.fillStyle = labelColor;
 
-      // Larger font size for the exit portal
-      const fontSize = color === 0xff0000 ? 32 : 48;
+      // Larger font size for labels in front of the portal
+      const fontSize = labelAbove ? 32 : 48;
       context.font = `bold ${fontSize}px Arial`;
       context.textAlign = "center";
       context.fillText(labelText, canvas.width / 2, canvas.height / 2);
@@ -172,12 +313,11 @@ export class PortalManager {
 
       const label = new THREE.Mesh(labelGeometry, labelMaterial);
 
-      // Position label based on portal type
-      if (color === 0xff0000) {
-        // Entrance portal - position above
+      // Position label based on placement
+      if (labelAbove) {
         label.position.y = radius * 1.5;
       } else {
-        // Exit portal - position closer and in front
+        // Position closer and in front
         label.position.y = radius * 1.2;
         label.position.z = radius * 0.1; // Slightly in front of portal
         // Rotate text 180 degrees around Y axis to face correct direction
@@ -200,117 +340,106 @@ export class PortalManager {
     // Store reference to portal for animations
     wrapper.userData = {
       portal: portal,
+      particles: portal.userData.particles,
       particlesGeometry: portal.userData.particlesGeometry,
-      type: portal.userData.type,
     };
 
     return wrapper;
   }
 
-  // Create entrance portal at specified coordinates
-  createStartPortal(
-    x = 0,
-    y = 0,
-    z = 0,
-    radius = 6,
-    options: PortalOptions = {}
-  ): PortalWrapper {
-    // Create portal mesh with default or custom options
-    const portal = this.createPortalMesh(radius, 0xff0000, {
-      labelText: options.labelText || "Go back",
-      labelColor: options.labelColor || "#ff0000",
-    });
-
-    // Position the portal
-    portal.position.x = x;
-    portal.position.y = y;
-    portal.position.z = z;
-
-    // Add portal to scene
-    this.scene.add(portal);
-
-    // Create portal collision box
-    this.startPortalBox = new THREE.Box3().setFromObject(portal);
-
-    // Store portal reference
-    this.startPortal = portal;
-
-    // Start animation
-    this.animateStartPortal();
+  // Add a portal to the scene from its config, replacing any portal already using its id
+  addPortal(config: PortalConfig): PortalWrapper {
+    this.removePortal(config.id);
 
-    return portal;
-  }
-
-  // Create exit portal at specified coordinates
-  createExitPortal(
-    x = 0,
-    y = 0,
-    z = 0,
-    radius = 6,
-    options: PortalOptions = {}
-  ): PortalWrapper {
-    // Create portal mesh with default or custom options
-    const portal = this.createPortalMesh(radius, 0x00ff00, {
-      labelText: options.labelText || "To Vibeverse",
-      labelColor: options.labelColor || "#00ff00",
+    const portal = this.createPortalMesh(config.radius, config.color, {
+      labelText: config.label,
+      labelColor: config.labelColor,
+      labelPlacement: config.labelPlacement,
     });
 
     // Position the portal
-    portal.position.x = x;
-    portal.position.y = y;
-    portal.position.z = z;
+    const { x, y, z } = config.position;
+    portal.position.set(x, y, z);
+    portal.rotation.y = config.rotationY ?? 0;
 
     // Add portal to scene
     this.scene.add(portal);
 
-    // Create portal collision box
-    this.exitPortalBox = new THREE.Box3().setFromObject(portal);
-
-    // Store portal reference
-    this.exitPortal = portal;
-
-    // Start animation
-    this.animateExitPortal();
+    // Let the browser get a head start on pages outside the game
+    const prefetchUrl = this.getPrefetchUrl(config.destination);
+    const removeHints =
+      prefetchUrl && this.options.prefetch !== false
+        ? addPrefetchHints(prefetchUrl)
+        : () => {};
+
+    // Hum from the portal itself, so it grows louder as the player approaches
+    const ambient = config.ambientSound
+      ? (this.options.audio ?? audioManager).play(config.ambientSound, {
+          loop: true,
+          volume: AMBIENT_VOLUME,
+          position: config.position,
+          distance: { ...DISTANCE_CURVES.portalAmbient, ...config.ambientDistance },
+        })
+      : null;
+
+    // Store portal reference along with its collision box
+    this.portals.set(config.id, {
+      config,
+      wrapper: portal,
+      box: new THREE.Box3().setFromObject(portal),
+      locked: false,
+      removeHints,
+      ambient,
+    });
 
     return portal;
   }
 
-  // Animate entrance portal particles
-  animateStartPortal(): void {
-    if (!this.startPortal || !this.startPortal.userData) return;
-
-    // Get the particles geometry from the userData
-    const particlesGeometry = this.startPortal.userData.particlesGeometry;
-    if (!particlesGeometry) return;
-
-    const positions = particlesGeometry.attributes.position.array;
-
-    for (let i = 0; i < positions.length; i += 3) {
-      // Animate particles moving in/out slightly
-      positions[i + 2] = Math.sin(Date.now() * 0.002 + i) * 0.3;
-    }
+  // Hide a portal until its unlock condition is met
+  setPortalLocked(id: string, locked: boolean): void {
+    const managed = this.portals.get(id);
+    if (!managed) return;
 
-    particlesGeometry.attributes.position.needsUpdate = true;
-    requestAnimationFrame(this.animateStartPortal.bind(this));
+    managed.locked = locked;
+    managed.wrapper.visible = !locked;
+    managed.ambient?.setVolume(locked ? 0 : AMBIENT_VOLUME, 0.5);
   }
 
-  // Animate exit portal particles
-  animateExitPortal(): void {
-    if (!this.exitPortal || !this.exitPortal.userData) return;
-
-    // Get the particles geometry from the userData
-    const particlesGeometry = this.exitPortal.userData.particlesGeometry;
-    if (!particlesGeometry) return;
+  getPortal(id: string): PortalWrapper | undefined {
+    return this.portals.get(id)?.wrapper;
+  }
 
-    const positions = particlesGeometry.attributes.position.array;
+  // Take a portal out of the scene and free its GPU resources
+  removePortal(id: string): boolean {
+    const managed = this.portals.get(id);
+    if (!managed) return false;
+
+    this.scene.remove(managed.wrapper);
+    this.disposeObject(managed.wrapper);
+    managed.removeHints();
+    managed.ambient?.stop(0.3);
+    this.portals.delete(id);
+    return true;
+  }
 
-    for (let i = 0; i < positions.length; i += 3) {
-      // Animate particles moving in/out slightly
-      positions[i + 2] = Math.sin(Date.now() * 0.002 + i) * 0.3;
-    }
+  // Free the geometries, materials and label textures under an object
+  private disposeObject(object: THREE.Object3D): void {
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh || child instanceof THREE.Points)) {
+        return;
+      }
 
-    particlesGeometry.attributes.position.needsUpdate = true;
-    requestAnimationFrame(this.animateExitPortal.bind(this));
+      child.geometry.dispose();
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material];
+      materials.forEach((material: THREE.Material) => {
+        if ("map" in material && material.map instanceof THREE.Texture) {
+          material.map.dispose();
+        }
+        material.dispose();
+      });
+    });
   }
 
   // Check if player has entered a portal
@@ -326,156 +455,338 @@ export class PortalManager {
       player.position.z
     );
 
-    // Check entrance portal collision
-    if (this.startPortalBox && this.startPortal) {
-      // Update box to match current position
-      this.startPortalBox.setFromObject(this.startPortal);
+    // Entry itself happens in update(), once the player has stayed in the portal long enough
+    this.touchingPortalId = null;
+    for (const { config, wrapper, box, locked } of this.portals.values()) {
+      if (locked) continue;
 
-      // Expand the box slightly for better collision detection
-      const expandedStartBox = this.startPortalBox.clone().expandByScalar(1.5);
-      if (expandedStartBox.containsPoint(playerPosition)) {
-        this.handleStartPortalEntry();
-      }
-    }
-
-    // Check exit portal collision
-    if (this.exitPortalBox && this.exitPortal) {
       // Update box to match current position
-      this.exitPortalBox.setFromObject(this.exitPortal);
+      box.setFromObject(wrapper);
 
       // Expand the box slightly for better collision detection
-      const expandedExitBox = this.exitPortalBox.clone().expandByScalar(1.5);
-      if (expandedExitBox.containsPoint(playerPosition)) {
-        this.handleExitPortalEntry();
+      const expandedBox = box.clone().expandByScalar(1.5);
+      if (expandedBox.containsPoint(playerPosition)) {
+        this.touchingPortalId = config.id;
+        break;
       }
     }
   }
 
-  // Handle entrance portal interaction
-  handleStartPortalEntry(): void {
-    // Get ref from URL params
-    const urlParams = new URLSearchParams(window.location.search);
-    const refUrl = urlParams.get("ref");
-    if (refUrl) {
-      // Add https if not present and include query params
-      let url = refUrl;
-      if (!url.startsWith("http://") && !url.startsWith("https://")) {
-        url = "https://" + url;
+  // Step the entry state machine
+  private updateEntry(delta: number): void {
+    const state = this.entryState;
+    const touching = this.touchingPortalId;
+
+    switch (state.status) {
+      case "idle":
+        if (touching) {
+          this.entryState = { status: "touching", portalId: touching, elapsed: 0 };
+        }
+        break;
+
+      case "touching": {
+        if (touching !== state.portalId) {
+          this.entryState = { status: "idle" };
+          break;
+        }
+        const elapsed = state.elapsed + delta;
+        if (elapsed < ENTRY_DEBOUNCE) {
+          this.entryState = { ...state, elapsed };
+          break;
+        }
+
+        const portal = this.portals.get(state.portalId);
+        if (portal) {
+          this.beginEntry(portal.config);
+        } else {
+          this.entryState = { status: "idle" };
+        }
+        break;
       }
 
-      // Copy all current parameters except 'ref' to preserve game state when returning
-      const currentParams = new URLSearchParams(window.location.search);
-      const newParams = new URLSearchParams();
-      for (const [key, value] of currentParams) {
-        if (key !== "ref") {
-          newParams.append(key, value);
+      case "confirming":
+        // Walking back out of the portal counts as "no"
+        if (touching !== state.portalId) {
+          const portal = this.portals.get(state.portalId);
+          this.entryState = { status: "idle" };
+          if (portal) {
+            this.options.onEvent?.({ type: "confirmCancelled", portal: portal.config });
+          }
+        }
+        break;
+
+      case "transitioning": {
+        const elapsed = state.elapsed + delta;
+        this.entryState = { ...state, elapsed };
+        if (elapsed < TRANSITION_DURATION) break;
+
+        const portal = this.portals.get(state.portalId);
+        if (!portal) {
+          this.entryState = { status: "arriving", portalId: state.portalId, elapsed: 0 };
+          break;
+        }
+
+        if (state.url) {
+          this.entryState = { status: "leaving", portalId: state.portalId };
+          this.navigate(state.url);
+        } else {
+          this.entryState = { status: "arriving", portalId: state.portalId, elapsed: 0 };
+          this.options.onInGameDestination?.(portal.config.destination, portal.config.id);
         }
+        this.options.onEvent?.({ type: "transitionFinished", portal: portal.config });
+        break;
       }
 
-      const paramString = newParams.toString();
-      window.location.href = url + (paramString ? "?" + paramString : "");
-    } else {
-      // If no ref parameter, show an error message
-      this.showNoReturnMessage();
-    }
-  }
+      case "leaving":
+        break;
 
-  // Display a message when there's nowhere to return to
-  showNoReturnMessage(): void {
-    // Create message element if it doesn't exist
-    if (!document.getElementById("portal-message")) {
-      const messageEl = document.createElement("div");
-      messageEl.id = "portal-message";
-      messageEl.style.position = "fixed";
-      messageEl.style.top = "20%";
-      messageEl.style.left = "50%";
-      messageEl.style.transform = "translateX(-50%)";
-      messageEl.style.padding = "15px 30px";
-      messageEl.style.backgroundColor = "rgba(0, 0, 0, 0.8)";
-      messageEl.style.color = "white";
-      messageEl.style.borderRadius = "5px";
-      messageEl.style.fontFamily = "Arial, sans-serif";
-      messageEl.style.fontSize = "18px";
-      messageEl.style.zIndex = "1000";
-      messageEl.style.textAlign = "center";
-      messageEl.innerText = "No destination to return to...";
-
-      document.body.appendChild(messageEl);
-
-      // Remove message after 3 seconds
-      setTimeout(() => {
-        const msg = document.getElementById("portal-message");
-        if (msg) {
-          msg.style.opacity = "0";
-          msg.style.transition = "opacity 0.5s ease";
-
-          setTimeout(() => {
-            if (msg && msg.parentNode) {
-              msg.parentNode.removeChild(msg);
-            }
-          }, 500);
+      case "arriving": {
+        const elapsed = state.elapsed + delta;
+        this.entryState =
+          elapsed < ARRIVAL_DURATION
+            ? { ...state, elapsed }
+            : { status: "blocked", portalId: state.portalId };
+        break;
+      }
+
+      case "blocked":
+        if (touching !== state.portalId) {
+          this.entryState = { status: "idle" };
         }
-      }, 3000);
+        break;
     }
   }
 
-  // Handle exit portal interaction
-  handleExitPortalEntry(): void {
-    // Create parameters for the next page
-    const newParams = new URLSearchParams();
+  private requestConfirmation(config: PortalConfig): void {
+    this.entryState = { status: "confirming", portalId: config.id };
+
+    // Answers only count while this confirmation is still the one being asked
+    const isCurrent = () =>
+      this.entryState.status === "confirming" &&
+      this.entryState.portalId === config.id;
+
+    this.options.onEvent?.({
+      type: "confirmRequested",
+      portal: config,
+      confirm: () => {
+        if (isCurrent()) this.proceed(config);
+      },
+      cancel: () => {
+        if (!isCurrent()) return;
+        this.entryState = { status: "blocked", portalId: config.id };
+        this.options.onEvent?.({ type: "confirmCancelled", portal: config });
+      },
+    });
+  }
 
-    // Essential parameters
-    newParams.append("portal", "true"); // Indicate this is a portal entrance
+  // The player has stood in the portal long enough to mean it
+  private beginEntry(config: PortalConfig): void {
+    // Don't ask whether to leave when there's nowhere to go
+    if (
+      leavesGame(config.destination) &&
+      this.getDestinationUrl(config.destination) === null
+    ) {
+      this.entryState = { status: "blocked", portalId: config.id };
+      this.showNoReturnMessage(config);
+      return;
+    }
 
-    // Player information - get from socket if available
-    if (this.socket && this.socket.id) {
-      newParams.append("username", this.socket.id);
+    if (config.confirm) {
+      this.requestConfirmation(config);
     } else {
-      // Generate a random username if not available
-      newParams.append(
-        "username",
-        "player_" + Math.floor(Math.random() * 10000)
-      );
+      this.proceed(config);
     }
+  }
 
-    // Set player color to white as default
-    newParams.append("color", "white");
+  // Check other sites are reachable before warping to them
+  private proceed(config: PortalConfig): void {
+    const url = this.getDestinationUrl(config.destination);
+    if (url === null || this.options.preflight === false) {
+      this.startTransition(config, url);
+      return;
+    }
 
-    // Add current URL as reference for return portal
-    const currentUrl = window.location.host + window.location.pathname;
-    newParams.append("ref", currentUrl);
+    const checking: PortalEntryState = { status: "checking", portalId: config.id, url };
+    this.entryState = checking;
 
-    // Add additional optional parameters if available
-    // Speed parameters - defaulting to reasonable values
-    newParams.append("speed", "3"); // Default walking speed
+    preflightDestination(url, this.options.preflight).then((result) => {
+      // Ignore the answer if the manager has moved on, e.g. been disposed
+      if (this.entryState !== checking) return;
 
-    // Copy any other useful parameters from current URL
-    const currentParams = new URLSearchParams(window.location.search);
-    for (const [key, value] of currentParams) {
-      if (!newParams.has(key) && key !== "portal") {
-        newParams.append(key, value);
+      if (result.ok) {
+        this.startTransition(config, url);
+        return;
       }
+
+      console.log(`Portal destination ${url} is unreachable: ${result.reason}`);
+      this.entryState = { status: "blocked", portalId: config.id };
+      this.options.onEvent?.({
+        type: "entryFailed",
+        portal: config,
+        message: `"${config.label}" can't be reached right now (${result.reason}). Try again in a moment.`,
+      });
+    });
+  }
+
+  private startTransition(config: PortalConfig, url: string | null): void {
+    this.entryState = {
+      status: "transitioning",
+      portalId: config.id,
+      elapsed: 0,
+      url,
+    };
+    this.warpSphere.material.color.set(config.color);
+
+    this.options.onEvent?.({
+      type: "transitionStarted",
+      portal: config,
+      duration: TRANSITION_DURATION,
+      leavesGame: url !== null,
+    });
+  }
+
+  // How much the warp covers the view, and how fast the entered portal spins
+  private getWarpAmount(): number {
+    const state = this.entryState;
+    if (state.status === "transitioning") {
+      return Math.min(1, state.elapsed / TRANSITION_DURATION);
+    }
+    if (state.status === "leaving") return 1;
+    // A hint of the warp while the destination is checked
+    if (state.status === "checking") return 0.15;
+    if (state.status === "arriving") {
+      return Math.max(0, 1 - state.elapsed / ARRIVAL_DURATION);
     }
+    return 0;
+  }
+
+  private updateWarp(delta: number, camera: THREE.Camera): void {
+    const warp = this.getWarpAmount();
+
+    // Ease in so the warp builds up rather than snapping on
+    this.warpSphere.visible = warp > 0;
+    this.warpSphere.material.opacity = warp * warp;
+    camera.getWorldPosition(this.warpSphere.position);
+
+    const state = this.entryState;
+    if (!("portalId" in state)) return;
+    const portal = this.portals.get(state.portalId);
+    if (portal) {
+      portal.wrapper.userData.particles.rotation.z += delta * warp * 12;
+    }
+  }
+
+  // The full URL a portal leads to, or null for in-game destinations and a return with no ref
+  getDestinationUrl(destination: PortalDestination): string | null {
+    switch (destination.type) {
+      case "return":
+        return this.getReturnUrl();
+      case "vibeverse":
+        return this.getExitUrl(destination.url);
+      default:
+        return null;
+    }
+  }
 
-    const paramString = newParams.toString();
-    const nextPage =
-      "http://portal.pieter.com" + (paramString ? "?" + paramString : "");
-
-    // Create hidden iframe to preload next page
-    if (!document.getElementById("preloadFrame")) {
-      const iframe = document.createElement("iframe");
-      iframe.id = "preloadFrame";
-      iframe.style.display = "none";
-      iframe.src = nextPage;
-      document.body.appendChild(iframe);
+  // Where to point prefetch hints - the destination page itself, without the player's params
+  private getPrefetchUrl(destination: PortalDestination): string | null {
+    if (destination.type === "vibeverse") return destination.url ?? this.hubUrl;
+    if (destination.type === "return") {
+      const { ref } = parsePortalParams(this.location.search);
+      return ref ? normalizeRefUrl(ref) : null;
     }
+    return null;
+  }
+
+  // The game the player came from, with everything they arrived with except 'ref'
+  getReturnUrl(): string | null {
+    // Get ref from URL params
+    const params = parsePortalParams(this.location.search);
+    if (!params.ref) return null;
 
-    // Navigate to the next page
-    window.location.href = nextPage;
+    // Pass along everything except 'ref' to preserve game state when returning
+    return buildPortalUrl(normalizeRefUrl(params.ref), { ...params, ref: undefined });
+  }
+
+  // Display a message when there's nowhere to return to
+  showNoReturnMessage(portal: PortalConfig): void {
+    this.options.onEvent?.({
+      type: "entryFailed",
+      portal,
+      message: "No destination to return to...",
+    });
   }
 
-  // Update method to be called each frame
-  update(): void {
-    // No need to update collision boxes every frame, we update them in checkPortalCollisions
+  // The exit portal's destination, carrying the player's params on to the given game or the hub
+  getExitUrl(destinationUrl: string = this.hubUrl): string {
+    // Whatever we arrived with carries on, including params we don't know about
+    const current = parsePortalParams(this.location.search);
+    const player = this.options.getPlayerParams?.() ?? {};
+
+    const playerExtraKeys = new Set((player.extra ?? []).map(([key]) => key));
+
+    const params: PortalParams = {
+      ...current,
+      ...player,
+      extra: [
+        ...current.extra.filter(([key]) => !playerExtraKeys.has(key)),
+        ...(player.extra ?? []),
+      ],
+      // Indicate this is a portal entrance
+      portal: true,
+      // Keep the visitor's name, otherwise use the socket id or make one up
+      username:
+        player.username ??
+        current.username ??
+        this.socket?.id ??
+        "player_" + Math.floor(Math.random() * 10000),
+      color: player.color ?? current.color ?? "white",
+      speed: player.speed ?? current.speed ?? DEFAULT_PORTAL_SPEED,
+      // Add current URL as reference for return portal
+      ref: this.location.host + this.location.pathname,
+    };
+
+    return buildPortalUrl(destinationUrl, params);
+  }
+
+  private navigate(url: string): void {
+    this.location.assign(url);
+  }
+
+  // Update method to be called each frame, from the r3f frame loop
+  update(delta: number, camera: THREE.Camera = this.camera): void {
+    this.elapsed += delta;
+    this.updateEntry(delta);
+    this.updateWarp(delta, camera);
+
+    for (const { wrapper } of this.portals.values()) {
+      // Get the particles geometry from the userData
+      const particlesGeometry = wrapper.userData.particlesGeometry;
+      if (!particlesGeometry) continue;
+
+      const positions = particlesGeometry.attributes.position.array;
+
+      for (let i = 0; i < positions.length; i += 3) {
+        // Animate particles moving in/out slightly
+        positions[i + 2] = Math.sin(this.elapsed * 2 + i) * 0.3;
+      }
+
+      particlesGeometry.attributes.position.needsUpdate = true;
+    }
+  }
+
+  // Remove every portal and stop all timers; the manager can't be used afterwards
+  dispose(): void {
+    [...this.portals.keys()].forEach((id) => this.removePortal(id));
+    this.scene.remove(this.warpSphere);
+    this.disposeObject(this.warpSphere);
+    window.removeEventListener("pageshow", this.handlePageShow);
+    // Drop any pending preflight or transition
+    this.entryState = { status: "idle" };
+
+    if (this.playerCheckInterval) {
+      clearInterval(this.playerCheckInterval);
+      this.playerCheckInterval = null;
+    }
   }
 }
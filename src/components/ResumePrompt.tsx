@@ -0,0 +1,72 @@
+import { useEffect, useCallback } from 'react';
+import { SavedRun } from '../types/game';
+import { getItem } from '../items/registry';
+
+interface ResumePromptProps {
+  run: SavedRun;
+  onContinue: () => void;
+  onNewRun: () => void;
+}
+
+// Offered on load when there's a run in progress from a previous visit
+const ResumePrompt = ({ run, onContinue, onNewRun }: ResumePromptProps) => {
+  const loadout = [run.weapon, run.armour, run.magic]
+    .filter((id): id is string => id !== null)
+    .map(id => getItem(id)?.label ?? id);
+
+  // C continues the saved run, N starts over
+  const handleKeyPress = useCallback((e: KeyboardEvent) => {
+    if (e.code === 'KeyC' || e.code === 'Enter') {
+      onContinue();
+    } else if (e.code === 'KeyN') {
+      onNewRun();
+    }
+  }, [onContinue, onNewRun]);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyPress);
+    return () => {
+      window.removeEventListener('keydown', handleKeyPress);
+    };
+  }, [handleKeyPress]);
+
+  const buttonStyle = {
+    pointerEvents: 'auto' as const,
+    padding: '12px 28px',
+    fontSize: '20px',
+    fontWeight: 'bold',
+    color: 'white',
+    background: 'rgba(0, 0, 0, 0.8)',
+    border: '1px solid rgba(255, 255, 255, 0.3)',
+    borderRadius: '6px',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex flex-col items-center justify-center"
+      style={{ zIndex: 99999, backgroundColor: 'rgba(0, 0, 0, 0.6)' }}
+    >
+      <h1
+        className="text-5xl font-bold text-white mb-4"
+        style={{ textShadow: '0 0 15px #00BFFF, 0 0 25px #00BFFF' }}
+      >
+        Welcome back
+      </h1>
+      <p className="text-xl text-white mb-8 text-center" style={{ textShadow: '0 0 8px black' }}>
+        {loadout.length > 0 ? `Carrying ${loadout.join(', ')}` : 'Your run is still waiting'}
+        {run.bossHealth < 100 && ` · The Mind at ${run.bossHealth}%`}
+      </p>
+      <div className="flex gap-6">
+        <button style={buttonStyle} onClick={onContinue}>
+          Continue run (C)
+        </button>
+        <button style={buttonStyle} onClick={onNewRun}>
+          New run (N)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumePrompt;
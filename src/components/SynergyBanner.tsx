@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Synergy, describeSynergy } from '../combat/synergies';
+
+interface SynergyBannerProps {
+  synergy: Synergy;
+  onComplete: () => void;
+}
+
+// How long the banner stays up before fading away
+const BANNER_DURATION = 3500;
+
+const SynergyBanner = ({ synergy, onComplete }: SynergyBannerProps) => {
+  const [fadeOut, setFadeOut] = useState(false);
+
+  useEffect(() => {
+    const fadeTimer = setTimeout(() => setFadeOut(true), BANNER_DURATION);
+    const doneTimer = setTimeout(onComplete, BANNER_DURATION + 800);
+
+    return () => {
+      clearTimeout(fadeTimer);
+      clearTimeout(doneTimer);
+    };
+  }, [onComplete]);
+
+  return (
+    <div
+      className="fixed inset-x-0 flex justify-center pointer-events-none"
+      style={{
+        top: '22%',
+        zIndex: 9000,
+        opacity: fadeOut ? 0 : 1,
+        transition: 'opacity 0.8s ease-out'
+      }}
+    >
+      <div
+        className="text-center"
+        style={{
+          animation: 'synergyBannerAppear 0.6s ease-out',
+          padding: '14px 36px',
+          background: 'linear-gradient(to right, rgba(0, 0, 0, 0), rgba(0, 0, 0, 0.75), rgba(0, 0, 0, 0))',
+          fontFamily: 'Arial, sans-serif'
+        }}
+      >
+        <div
+          className="text-sm font-bold uppercase"
+          style={{ color: '#FFC700', letterSpacing: '4px', textShadow: '0 0 8px #FFA500' }}
+        >
+          Synergy unlocked
+        </div>
+        <div
+          className="text-3xl font-bold text-white"
+          style={{ textShadow: '0 0 10px #FFC700, 0 0 20px #FFA500' }}
+        >
+          {describeSynergy(synergy)}
+        </div>
+        <div className="text-base text-white" style={{ opacity: 0.85 }}>
+          {synergy.description}
+        </div>
+      </div>
+
+      <style dangerouslySetInnerHTML={{ __html: `
+        @keyframes synergyBannerAppear {
+          0% { transform: scale(1.4); opacity: 0; }
+          100% { transform: scale(1); opacity: 1; }
+        }
+      `}} />
+    </div>
+  );
+};
+
+export default SynergyBanner;
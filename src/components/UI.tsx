@@ -1,11 +1,17 @@
-import { GameState } from '../types/game';
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useGameState } from '../store/gameStore';
+import { getBossPhase } from '../combat/phases';
+import BossStatusIcons from './BossStatusIcons';
+import { inboundPortal } from '../portal/portalParams';
+import { audioManager } from '../audio/audioManager';
+import { SOUNDS } from '../audio/sounds';
+import { inputManager } from '../input/inputManager';
 
 interface UIProps {
-  gameState: GameState;
-  bossHealth: number;
-  bossDefeated?: boolean;
-  onMobileMove?: (x: number, y: number) => void;
+  // The player beat the boss before leaving through the exit portal
+  champion?: boolean;
+  // Opens the audio settings panel
+  onOpenSettings?: () => void;
 }
 
 // Helper function to capitalize the first letter
@@ -14,21 +20,21 @@ const capitalize = (text: string | null): string => {
   return text.charAt(0).toUpperCase() + text.slice(1);
 };
 
-function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIProps) {
+function UI({ champion, onOpenSettings }: UIProps) {
+  const gameState = useGameState();
+  const { bossHealth, bossDefeated, bossStatuses, playerHealth, playerDefeated } = gameState;
+  // The boss's name changes with its phase; the first word is highlighted
+  const [bossNameHighlight, ...bossNameRest] = getBossPhase(bossHealth).name.split(' ');
   const [showBossNameAnimation, setShowBossNameAnimation] = useState(false);
   const [showBossUI, setShowBossUI] = useState(false);
-  const [playerHealth, setPlayerHealth] = useState(100);
   const [isMobile, setIsMobile] = useState(false);
   const [touchActive, setTouchActive] = useState(false);
   const joystickRef = useRef<HTMLDivElement>(null);
   const lastHitTime = useRef(0);
-  const minPlayerHealth = 30; // Player health won't drop below this
+  const previousPlayerHealth = useRef(playerHealth);
   const hasAllItems = gameState.weapon !== null && gameState.armour !== null && gameState.magic !== null;
   const [joystickPosition, setJoystickPosition] = useState({ x: 0, y: 0 });
   
-  // Preload hit sound to improve performance and reduce errors
-  const hitSoundRef = useRef<HTMLAudioElement | null>(null);
-  
   useEffect(() => {
     const checkMobile = () => {
       setIsMobile(/Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent));
@@ -40,40 +46,9 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  // Initialize hit sound
-  useEffect(() => {
-    // Create hit sound element
-    hitSoundRef.current = new Audio('/models/hit.mp3');
-    hitSoundRef.current.volume = 0.3;
-    
-    // Cleanup
-    return () => {
-      if (hitSoundRef.current) {
-        hitSoundRef.current.pause();
-        hitSoundRef.current.src = '';
-        hitSoundRef.current = null;
-      }
-    };
-  }, []);
-  
-  // Safely play hit sound
+  // Play the hit sound - the audio manager has already preloaded it
   const playHitSound = useCallback(() => {
-    if (hitSoundRef.current) {
-      try {
-        // Reset and play
-        hitSoundRef.current.currentTime = 0;
-        const playPromise = hitSoundRef.current.play();
-        
-        // Handle the promise to avoid uncaught errors
-        if (playPromise !== undefined) {
-          playPromise.catch(err => {
-            console.log('Hit sound playback suppressed - this is expected before user interaction');
-          });
-        }
-      } catch (e) {
-        // Ignore errors - audio will play once user interacts
-      }
-    }
+    audioManager.play(SOUNDS.hit, { volume: 0.3 });
   }, []);
 
   const handleTouchStart = (e: React.TouchEvent) => {
@@ -108,12 +83,8 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
     });
     
     console.log(`UI sending movement: (${normalizedX}, ${-normalizedY})`);
-    if (onMobileMove) {
-      // We're sending raw normalized values - Player component will handle the inversion
-      onMobileMove(normalizedX, -normalizedY);
-    } else {
-      console.warn('onMobileMove handler not provided to UI component');
-    }
+    // Screen y grows downwards, the move axis grows forwards
+    inputManager.touch.setAxis(normalizedX, -normalizedY);
   };
 
   const handleTouchMove = (e: React.TouchEvent) => {
@@ -146,12 +117,8 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
     });
     
     console.log(`UI sending movement: (${normalizedX}, ${-normalizedY})`);
-    if (onMobileMove) {
-      // Keep consistent with touch start
-      onMobileMove(normalizedX, -normalizedY);
-    } else {
-      console.warn('onMobileMove handler not provided to UI component');
-    }
+    // Keep consistent with touch start
+    inputManager.touch.setAxis(normalizedX, -normalizedY);
   };
 
   const handleTouchEnd = (e: React.TouchEvent) => {
@@ -163,11 +130,7 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
     setJoystickPosition({ x: 0, y: 0 });
     
     console.log(`UI sending movement: (0, 0)`);
-    if (onMobileMove) {
-      onMobileMove(0, 0);
-    } else {
-      console.warn('onMobileMove handler not provided to UI component');
-    }
+    inputManager.touch.release();
   };
 
   // Hide boss UI when boss is defeated
@@ -176,9 +139,6 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
       // Clear boss UI when boss is defeated
       setShowBossUI(false);
       setShowBossNameAnimation(false);
-      
-      // Reset player health too
-      setPlayerHealth(100);
     }
   }, [bossDefeated]);
 
@@ -197,40 +157,14 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
     }
   }, [hasAllItems, bossDefeated]);
   
-  // Randomly reduce player health when boss fight is active
+  // Play the hit sound whenever the boss lands a hit on the player
   useEffect(() => {
-    if (!hasAllItems || bossDefeated) return;
-    
-    const randomHitInterval = () => Math.random() * 2000 + 500; // Random interval between 0.5-2.5 seconds
-    
-    const damagePlayer = () => {
-      // Only apply damage if it's been at least 500ms since the last hit
-      const now = Date.now();
-      if (now - lastHitTime.current < 500) return;
-      
-      // Random damage between 1-5%
-      const damage = Math.floor(Math.random() * 5) + 1;
-      
-      setPlayerHealth(prev => {
-        // Don't let health go below minimum
-        return Math.max(prev - damage, minPlayerHealth);
-      });
-      
-      // Play hit sound using the safe method
+    if (playerHealth < previousPlayerHealth.current) {
       playHitSound();
-      
-      lastHitTime.current = now;
-    };
-    
-    const interval = setInterval(() => {
-      // 70% chance of getting hit each interval check
-      if (Math.random() < 0.7) {
-        damagePlayer();
-      }
-    }, randomHitInterval());
-    
-    return () => clearInterval(interval);
-  }, [hasAllItems, bossDefeated]);
+      lastHitTime.current = Date.now();
+    }
+    previousPlayerHealth.current = playerHealth;
+  }, [playerHealth, playHitSound]);
   
   return (
     <div className="fixed inset-0" style={{ pointerEvents: 'none' }}>
@@ -308,6 +242,30 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
         />
       </a>
       
+      {/* Audio settings button - also opened with Esc */}
+      {onOpenSettings && (
+        <button
+          onClick={onOpenSettings}
+          title="Audio settings (Esc)"
+          style={{
+            position: 'fixed',
+            top: '60px',
+            right: '16px',
+            padding: '6px 10px',
+            fontSize: '18px',
+            color: 'white',
+            background: 'rgba(0, 0, 0, 0.6)',
+            border: '1px solid rgba(255, 255, 255, 0.3)',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            zIndex: 10000,
+            pointerEvents: 'auto'
+          }}
+        >
+          🔊
+        </button>
+      )}
+      
       {/* Rest of UI elements */}
       <div className="game-ui">
         <div className="p-4 flex flex-col h-full">
@@ -323,11 +281,18 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
             <div className="ui-label">
               Magic: {capitalize(gameState.magic)}
             </div>
-            <div></div>
+            {/* Name the player arrived with through a Vibeverse portal */}
+            {inboundPortal.username || champion ? (
+              <div className="ui-label" style={{ color: inboundPortal.color }}>
+                {champion && '👑 '}{inboundPortal.username ?? 'Champion'}
+              </div>
+            ) : (
+              <div></div>
+            )}
           </div>
           
           {/* Boss UI - only show if not defeated and showBossUI is true */}
-          {hasAllItems && !bossDefeated && showBossUI && (
+          {hasAllItems && !bossDefeated && !playerDefeated && showBossUI && (
             <div 
               className="absolute top-0 left-0 right-0 w-full"
               style={{ 
@@ -359,7 +324,7 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
                     textShadow: '0 0 10px red, 0 0 15px red',
                     animation: showBossNameAnimation ? 'pulseBossName 2s infinite' : 'none'
                   }}>
-                    <span style={{ color: '#FF3333' }}>THE</span> MIND
+                    <span style={{ color: '#FF3333' }}>{bossNameHighlight}</span> {bossNameRest.join(' ')}
                   </div>
                   
                   {/* Versus text */}
@@ -480,6 +445,9 @@ function UI({ gameState, bossHealth, bossDefeated = false, onMobileMove }: UIPro
                     </div>
                   </div>
                 </div>
+                
+                {/* Statuses inflicted by the player's magic */}
+                <BossStatusIcons statuses={bossStatuses} />
               </div>
             </div>
           )}
@@ -1,101 +1,49 @@
 import { useEffect, useState, useCallback } from 'react';
+import { Synergy } from '../combat/synergies';
+import { ButtonAction, formatBinding } from '../input/bindings';
+import { inputManager } from '../input/inputManager';
 
 interface VictoryProps {
   onComplete?: () => void;
   onRestart?: () => void;
+  // A synergy in the winning loadout gets its own victory line
+  synergy?: Synergy | null;
 }
 
-const Victory = ({ onComplete, onRestart }: VictoryProps) => {
+const Victory = ({ onComplete, onRestart, synergy }: VictoryProps) => {
   console.log("Victory component mounted!");
   
   const [showConfetti, setShowConfetti] = useState(false);
   const [showTypewriter, setShowTypewriter] = useState(false);
   const [typewriterText, setTypewriterText] = useState('');
-  const [fullText] = useState('Enter the portal to continue or press Space to restart');
+  const [fullText] = useState(() => {
+    const { keyboard, gamepad } = inputManager.getBindings();
+    const [restartKey = 'Space'] = keyboard.restart;
+    const [restartButton] = gamepad.restart;
+    const gamepadHint = inputManager.gamepad.isConnected() && restartButton !== undefined
+      ? ` (or ${formatBinding('gamepad', restartButton)})`
+      : '';
+    return `Enter the portal to continue or press ${formatBinding('keyboard', restartKey)}${gamepadHint} to restart`;
+  });
   const [fadeOut, setFadeOut] = useState(false);
   
-  // Debug logging on mount and update
-  useEffect(() => {
-    console.log("VICTORY DEBUG: Component mounting/updating");
-    console.log("VICTORY DEBUG: Window gameState:", window.gameState);
-    console.log("VICTORY DEBUG: bossDefeated value:", window.gameState?.bossDefeated);
-    
-    // No auto-hide timer - let player manually dismiss
-    return () => {
-      console.log("VICTORY DEBUG: Component UNMOUNTING");
-      console.log("VICTORY DEBUG: On unmount - Window gameState:", window.gameState);
-      console.log("VICTORY DEBUG: On unmount - bossDefeated value:", window.gameState?.bossDefeated);
-    };
-  }, []);
-  
-  // Handle restart on space key press
-  const handleKeyPress = useCallback((e: KeyboardEvent) => {
-    // Space specifically will restart the game
-    if (e.code === 'Space' && showTypewriter && onRestart) {
-      console.log("VICTORY DEBUG: Space key pressed, restarting game");
+  // Handle the restart action (Space by default)
+  const handleAction = useCallback((action: ButtonAction) => {
+    if (action === 'restart' && showTypewriter && onRestart) {
+      console.log("VICTORY DEBUG: Restart pressed, restarting game");
       setFadeOut(true);
       
-      // Immediately teleport the player back to the start position before executing onRestart
-      // Access the game state through the window object to avoid dependency issues
-      if (window.gameState && window.setGameState) {
-        // Force complete reset of player position and state, keeping invulnerable
-        window.setGameState({
-          weapon: null,
-          armour: null,
-          magic: null,
-          position: { x: 0, z: 0 },
-          stage: 0,
-          collectedBlocks: [],
-          isInvulnerable: true,
-          bossHealth: 100,
-          bossDefeated: false
-        });
-        
-        // Add a second reset to ensure position is properly set
-        // This covers edge cases where the first reset might not fully apply
-        setTimeout(() => {
-          if (window.gameState && window.setGameState) {
-            window.setGameState({
-              weapon: null,
-              armour: null,
-              magic: null,
-              position: { x: 0, z: 0 },
-              stage: 0,
-              collectedBlocks: [],
-              isInvulnerable: true,
-              bossHealth: 100,
-              bossDefeated: false
-            });
-          }
-        }, 100);
-        
-        // Reset invulnerability after exactly 1 second to ensure player is fully teleported
-        // This ensures collision detection works for card selection
-        setTimeout(() => {
-          if (window.gameState && window.setGameState) {
-            window.setGameState({
-              ...window.gameState,
-              isInvulnerable: false
-            });
-            console.log("Collision detection re-enabled from Victory component");
-          }
-        }, 1000);
-      }
-      
-      // Then execute the restart handler after a delay for the fade effect
+      // Execute the restart handler after a delay for the fade effect
       setTimeout(() => {
         onRestart();
       }, 1000);
     }
   }, [showTypewriter, onRestart]);
   
-  // Set up key event listener
+  // Set up input action listener
   useEffect(() => {
-    window.addEventListener('keydown', handleKeyPress);
-    return () => {
-      window.removeEventListener('keydown', handleKeyPress);
-    };
-  }, [handleKeyPress]);
+    return inputManager.onAction(handleAction);
+  }, [handleAction]);
   
   // Start confetti with small delay
   useEffect(() => {
@@ -168,7 +116,7 @@ const Victory = ({ onComplete, onRestart }: VictoryProps) => {
             textShadow: '0 0 10px white, 0 0 15px white'
           }}
         >
-          {showTypewriter ? typewriterText : 'You have conquered your Mind'}
+          {showTypewriter ? typewriterText : synergy?.victoryText ?? 'You have conquered your Mind'}
         </h2>
       </div>
       
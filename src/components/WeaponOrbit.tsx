@@ -3,6 +3,7 @@ import { useFrame, useThree } from '@react-three/fiber';
 import { useGLTF } from '@react-three/drei';
 import { Group, BoxGeometry, MeshStandardMaterial, Mesh } from 'three';
 import { WeaponType } from '../types/game';
+import { ITEMS, getItem } from '../items/registry';
 
 interface WeaponOrbitProps {
   weaponType: WeaponType;
@@ -17,6 +18,8 @@ function WeaponOrbit({ weaponType, bossDefeated = false, hasAllItems = false }:
   const [isAttacking, setIsAttacking] = useState(false);
   const [exitProgress, setExitProgress] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
+  const weapon = getItem(weaponType);
+  const isPunching = weapon?.animation === 'punch';
   
   // Detect mobile devices
   useEffect(() => {
@@ -37,41 +40,11 @@ function WeaponOrbit({ weaponType, bossDefeated = false, hasAllItems = false }:
   
   // Load weapon model in an effect to avoid conditional hook issues
   useEffect(() => {
-    let modelPath = '/models/axe.glb'; // Default
-    
-    // Select the correct model based on weapon type
-    switch (weaponType) {
-      case 'sword':
-        modelPath = '/models/sword.glb';
-        break;
-      case 'axe':
-        modelPath = '/models/axe.glb';
-        break;
-      case 'fist':
-        modelPath = '/models/fists.glb';
-        break;
-
-        // For fists, we'll create a simple geometry instead of loading a model
-        // const fistGroup = new Group();
-        // const fistGeometry = new BoxGeometry(0.1, 0.1, 0.1);
-        // const fistMaterial = new MeshStandardMaterial({ color: '#ffcc88' });
-        
-        // // Create left fist
-        // const leftFist = new Mesh(fistGeometry, fistMaterial);
-        // leftFist.position.set(-0.1, 0, 0);
-        // fistGroup.add(leftFist);
-        
-        // // Create right fist
-        // const rightFist = new Mesh(fistGeometry, fistMaterial);
-        // rightFist.position.set(0.1, 0, 0);
-        // fistGroup.add(rightFist);
-        
-        // setWeaponModel(fistGroup);
-        // return; // Exit early as we've already set the model
-    }
+    // Select the correct model for the weapon
+    const modelPath = getItem(weaponType)?.modelPath ?? '/models/axe.glb';
     
     try {
-      // For sword and axe, load the GLTF model manually
+      // Load the GLTF model manually
       const { scene } = useGLTF(modelPath);
       setWeaponModel(scene.clone());
     } catch (error) {
@@ -136,7 +109,7 @@ function WeaponOrbit({ weaponType, bossDefeated = false, hasAllItems = false }:
       weaponRef.current.position.z = screenZ + Math.sin(time * attackSpeed) * 0.2;
       
       // Rotate based on weapon type during attack
-      if (weaponType === 'sword' || weaponType === 'axe') {
+      if (!isPunching) {
         weaponRef.current.rotation.x = Math.sin(time * attackSpeed) * 0.3;
       } else {
         // For fists, do a punching animation
@@ -144,7 +117,7 @@ function WeaponOrbit({ weaponType, bossDefeated = false, hasAllItems = false }:
       }
     } else {
       // Regular spinning animation
-      if (weaponType !== 'fist') {
+      if (!isPunching) {
         weaponRef.current.rotation.y += delta * spinSpeed;
       } else {
         // For fists, do a milder rotation
@@ -159,16 +132,8 @@ function WeaponOrbit({ weaponType, bossDefeated = false, hasAllItems = false }:
   
   // Adjust scale based on weapon type
   const getScale = () => {
-    switch (weaponType) {
-      case 'sword':
-        return [0.6, 0.6, 0.6] as [number, number, number];
-      case 'axe':
-        return [0.5, 0.5, 0.5] as [number, number, number];
-      case 'fist':
-        return [0.4, 0.4, 0.4] as [number, number, number]; // Larger scale for fists
-      default:
-        return [0.5, 0.5, 0.5] as [number, number, number];
-    }
+    const scale = weapon?.scale ?? 0.5;
+    return [scale, scale, scale] as [number, number, number];
   };
   
   return (
@@ -180,9 +145,9 @@ function WeaponOrbit({ weaponType, bossDefeated = false, hasAllItems = false }:
 
 // Preload weapon models with error handling
 try {
-  useGLTF.preload('/models/axe.glb');
-  useGLTF.preload('/models/sword.glb');
-  useGLTF.preload('/models/fists.glb');
+  ITEMS.forEach(item => {
+    if (item.category === 'weapon' && item.modelPath) useGLTF.preload(item.modelPath);
+  });
 } catch (error) {
   console.error("Error preloading weapon models:", error);
 }
@@ -0,0 +1,24 @@
+import { CombatConfig } from '../combat/engine';
+
+// Combat numbers a content pack may retune for its boss
+export type BossStats = Partial<Pick<
+  CombatConfig,
+  'attackInterval' | 'baseDamage' | 'bossDamageRange' | 'bossHitCooldown' | 'phaseTransitionDuration'
+>>;
+
+export interface BossDefinition {
+  modelPath: string;
+  // Looping hum played from the boss itself
+  humSound: string;
+  // Music that takes over from the background track once the fight starts
+  music: string;
+  stats: BossStats;
+}
+
+// The boss currently in play - the default Mind unless a content pack replaces it
+export const BOSS: BossDefinition = {
+  modelPath: '/models/brain.glb',
+  humSound: '/models/brain.mp3',
+  music: '/models/boss.mp3',
+  stats: {}
+};
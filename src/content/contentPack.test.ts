@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyContentPack, ContentPack, loadContentPack, validateContentPack } from './contentPack';
+import { STATUS_EFFECTS } from '../combat/statuses';
+import { ITEMS } from '../items/registry';
+
+const ORIGIN = 'https://cloud.example';
+
+const pack = (overrides: Partial<ContentPack> = {}): ContentPack => ({
+  id: 'test',
+  name: 'Test pack',
+  ...overrides
+});
+
+describe('loadContentPack', () => {
+  it('refuses packs from other sites without fetching them', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    const { pack, errors } = await loadContentPack('?pack=https://elsewhere.example/pack.json', ORIGIN);
+
+    expect(pack).toBeNull();
+    expect(errors[0]).toContain("isn't on this site");
+    expect(fetch).not.toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches bundled packs and packs on this site', async () => {
+    const fetch = vi.fn<(url: string) => Promise<Response>>(() => Promise.resolve(new Response(JSON.stringify(pack()))));
+    vi.stubGlobal('fetch', fetch);
+
+    expect((await loadContentPack('?pack=nightmare', ORIGIN)).pack?.id).toBe('test');
+    expect((await loadContentPack(`?pack=${ORIGIN}/mods/pack.json`, ORIGIN)).pack?.id).toBe('test');
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual(['/packs/nightmare.json', `${ORIGIN}/mods/pack.json`]);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('validateContentPack', () => {
+  it('only lets a pack use files from this site', () => {
+    const items = ITEMS.map(item => ({ ...item }));
+    items[0].cardTexture = 'https://elsewhere.example/card.png';
+
+    const { pack: valid, errors } = validateContentPack(
+      pack({ items, boss: { music: '//elsewhere.example/boss.mp3', humSound: '/models/hum.mp3' } }),
+      ORIGIN
+    );
+
+    expect(valid).toBeNull();
+    expect(errors).toEqual([
+      'pack.items[0].cardTexture: "https://elsewhere.example/card.png" isn\'t on this site - packs can only use the game\'s own files',
+      'pack.boss.music: "//elsewhere.example/boss.mp3" isn\'t on this site - packs can only use the game\'s own files'
+    ]);
+  });
+
+  it('checks status tuning against the known statuses', () => {
+    const { errors } = validateContentPack({ ...pack(), boss: { statuses: { stun: { duration: 1 } } } }, ORIGIN);
+
+    expect(errors[0]).toContain('pack.boss.statuses.stun: unknown field');
+  });
+});
+
+describe('applyContentPack', () => {
+  it('retunes statuses in the registry the fight reads from', () => {
+    const { name, icon } = STATUS_EFFECTS.slow;
+    applyContentPack(pack({ boss: { statuses: { slow: { speedMultiplier: 0.2, duration: 4 } } } }));
+
+    expect(STATUS_EFFECTS.slow).toMatchObject({ name, icon, speedMultiplier: 0.2, duration: 4 });
+  });
+});
@@ -0,0 +1,211 @@
+import { ItemCategory, StatusType } from '../types/game';
+import { ITEMS, STAGES, ItemDefinition, StageDefinition } from '../items/registry';
+import { BOSS_PHASES } from '../combat/phases';
+import { STATUS_EFFECTS, StatusTuning } from '../combat/statuses';
+import { BOSS, BossDefinition, BossStats } from './boss';
+import { Validator, arrayOf, number, object, oneOf, optional, string, tuple } from './schema';
+
+// A themed variant of Cloud Realm. Anything a pack leaves out keeps the default content.
+export interface ContentPack {
+  id: string;
+  name: string;
+  // Must list each category exactly once; the order is the order they appear on the bridge
+  stages?: StageDefinition[];
+  // Replaces every card in the game
+  items?: ItemDefinition[];
+  boss?: Partial<Omit<BossDefinition, 'stats'>> & {
+    // Replaces the phase names shown in the UI header, in phase order
+    phaseNames?: string[];
+    stats?: BossStats;
+    // Retunes the statuses the player's magic inflicts on this boss
+    statuses?: Partial<Record<StatusType, StatusTuning>>;
+  };
+}
+
+export interface ContentPackResult {
+  pack: ContentPack | null;
+  errors: string[];
+}
+
+const CATEGORIES: ItemCategory[] = ['weapon', 'armour', 'magic'];
+
+const statusTuningSchema: Validator = object({
+  duration: optional(number({ min: 0.1, max: 30 })),
+  chance: optional(number({ min: 0, max: 1 })),
+  tickDamage: optional(number({ min: 0, max: 100 })),
+  tickInterval: optional(number({ min: 0.1, max: 10 })),
+  speedMultiplier: optional(number({ min: 0, max: 1 }))
+});
+
+// The bridge is only wide enough for three cards per stage
+const MAX_CARDS_PER_STAGE = 3;
+
+const itemSchema: Validator = object({
+  id: string(),
+  category: oneOf(CATEGORIES),
+  label: string(),
+  cardTexture: string(),
+  modelPath: optional(string()),
+  scale: optional(number({ min: 0.01, max: 10 })),
+  animation: optional(oneOf(['spin', 'punch', 'sway', 'twirl', 'flip'])),
+  voiceClip: string(),
+  attackSound: optional(string()),
+  effect: optional(object({
+    particles: oneOf(['rain', 'embers', 'hearts']),
+    color: string(),
+    lightIntensity: number({ min: 0, max: 10 })
+  })),
+  stats: object({
+    damageBonus: optional(number({ min: 0, max: 100 })),
+    damageMultiplier: optional(number({ min: 0.1, max: 10 })),
+    damageReduction: optional(number({ min: 0, max: 0.9 })),
+    status: optional(oneOf(Object.keys(STATUS_EFFECTS)))
+  })
+});
+
+const contentPackSchema: Validator = object({
+  id: string(),
+  name: string(),
+  stages: optional(arrayOf(object({ category: oneOf(CATEGORIES), title: string() }), { minLength: 3 })),
+  items: optional(arrayOf(itemSchema, { minLength: 3 })),
+  boss: optional(object({
+    modelPath: optional(string()),
+    humSound: optional(string()),
+    music: optional(string()),
+    phaseNames: optional(arrayOf(string(), { minLength: 1 })),
+    statuses: optional(object(Object.fromEntries(
+      Object.keys(STATUS_EFFECTS).map(status => [status, optional(statusTuningSchema)])
+    ))),
+    stats: optional(object({
+      attackInterval: optional(number({ min: 0.2, max: 10 })),
+      baseDamage: optional(number({ min: 1, max: 100 })),
+      bossDamageRange: optional(tuple(number({ min: 0, max: 100 }), number({ min: 0, max: 100 }))),
+      bossHitCooldown: optional(number({ min: 0, max: 5 })),
+      phaseTransitionDuration: optional(number({ min: 0, max: 10 }))
+    }))
+  }))
+});
+
+// Whether a URL in a pack points at this site, where the game's own files are served from
+function isSameOrigin(url: string, origin: string): boolean {
+  try {
+    return new URL(url, origin).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+// Every file a pack loads, with where in the pack it's named
+function getAssetUrls(pack: ContentPack): Array<[path: string, url: string]> {
+  const urls: Array<[string, string]> = [];
+  pack.items?.forEach((item, index) => {
+    const { cardTexture, modelPath, voiceClip, attackSound } = item;
+    Object.entries({ cardTexture, modelPath, voiceClip, attackSound }).forEach(([field, url]) => {
+      if (url) urls.push([`pack.items[${index}].${field}`, url]);
+    });
+  });
+  if (pack.boss) {
+    const { modelPath, humSound, music } = pack.boss;
+    Object.entries({ modelPath, humSound, music }).forEach(([field, url]) => {
+      if (url) urls.push([`pack.boss.${field}`, url]);
+    });
+  }
+  return urls;
+}
+
+// Rules that span several fields, checked once the shape is known to be right
+function validateContent(pack: ContentPack, errors: string[], origin: string) {
+  // A pack may only use files served with the game, so a link can't pull in someone else's content
+  getAssetUrls(pack).forEach(([path, url]) => {
+    if (!isSameOrigin(url, origin)) errors.push(`${path}: "${url}" isn't on this site - packs can only use the game's own files`);
+  });
+
+  if (pack.stages) {
+    CATEGORIES.forEach(category => {
+      const count = pack.stages!.filter(stage => stage.category === category).length;
+      if (count !== 1) errors.push(`pack.stages: expected exactly one "${category}" stage, got ${count}`);
+    });
+  }
+
+  const items = pack.items ?? ITEMS;
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) errors.push(`pack.items[${index}].id: "${item.id}" is used by more than one item`);
+    seen.add(item.id);
+  });
+  CATEGORIES.forEach(category => {
+    const count = items.filter(item => item.category === category).length;
+    if (count === 0) errors.push(`pack.items: needs at least one "${category}" card`);
+    if (count > MAX_CARDS_PER_STAGE) {
+      errors.push(`pack.items: has ${count} "${category}" cards, but a stage fits at most ${MAX_CARDS_PER_STAGE}`);
+    }
+  });
+
+  const range = pack.boss?.stats?.bossDamageRange;
+  if (range && range[0] > range[1]) {
+    errors.push(`pack.boss.stats.bossDamageRange: the minimum (${range[0]}) is bigger than the maximum (${range[1]})`);
+  }
+}
+
+export function validateContentPack(json: unknown, origin: string = window.location.origin): ContentPackResult {
+  const errors: string[] = [];
+  contentPackSchema(json, 'pack', errors);
+  if (errors.length > 0) return { pack: null, errors };
+
+  const pack = json as ContentPack;
+  validateContent(pack, errors, origin);
+  return errors.length > 0 ? { pack: null, errors } : { pack, errors };
+}
+
+// Plain names load a pack bundled in public/packs; anything else is treated as a URL, which has to be on
+// this site. Packs from anywhere else are refused, so a shared link can't inject third-party content.
+const resolvePackUrl = (pack: string, origin: string): string | null => {
+  if (/^[\w-]+$/.test(pack)) return `/packs/${pack}.json`;
+  return isSameOrigin(pack, origin) ? new URL(pack, origin).href : null;
+};
+
+// Load the pack named by ?pack=, if any. Without one the game runs its default content.
+export async function loadContentPack(
+  search: string = window.location.search,
+  origin: string = window.location.origin
+): Promise<ContentPackResult> {
+  const packParam = new URLSearchParams(search).get('pack');
+  if (!packParam) return { pack: null, errors: [] };
+
+  const url = resolvePackUrl(packParam, origin);
+  if (!url) {
+    return { pack: null, errors: [`Content pack "${packParam}" isn't on this site - only bundled packs and packs served with the game can be loaded`] };
+  }
+  let json: unknown;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return { pack: null, errors: [`Couldn't load content pack "${packParam}" from ${url} (HTTP ${response.status})`] };
+    }
+    json = await response.json();
+  } catch (error) {
+    return { pack: null, errors: [`Couldn't read content pack "${packParam}" from ${url}: ${(error as Error).message}`] };
+  }
+
+  const result = validateContentPack(json, origin);
+  if (result.pack) console.log(`Loaded content pack "${result.pack.name}" from ${url}`);
+  return result;
+}
+
+// Swap the pack's content into the registries every component reads from
+export function applyContentPack(pack: ContentPack) {
+  if (pack.stages) STAGES.splice(0, STAGES.length, ...pack.stages);
+  if (pack.items) ITEMS.splice(0, ITEMS.length, ...pack.items);
+
+  if (pack.boss) {
+    const { phaseNames, stats, statuses, ...boss } = pack.boss;
+    Object.assign(BOSS, boss, { stats: { ...BOSS.stats, ...stats } });
+    phaseNames?.forEach((name, index) => {
+      if (BOSS_PHASES[index]) BOSS_PHASES[index].name = name;
+    });
+    // Tuned in place, so the combat engine and the boss's movement both pick it up
+    Object.entries(statuses ?? {}).forEach(([type, tuning]) => {
+      Object.assign(STATUS_EFFECTS[type as StatusType], tuning);
+    });
+  }
+}
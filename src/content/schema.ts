@@ -0,0 +1,67 @@
+// A tiny schema validator for content packs. Each validator checks a value and
+// records readable errors like `items[2].category: expected one of "weapon", "armour", "magic", got "shield"`.
+export type Validator = (value: unknown, path: string, errors: string[]) => void;
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'an object';
+  return JSON.stringify(value);
+};
+
+export const string = (): Validator => (value, path, errors) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path}: expected some text, got ${describe(value)}`);
+  }
+};
+
+export const number = ({ min = -Infinity, max = Infinity } = {}): Validator => (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}: expected a number, got ${describe(value)}`);
+  } else if (value < min || value > max) {
+    errors.push(`${path}: expected a number between ${min} and ${max}, got ${value}`);
+  }
+};
+
+export const oneOf = (options: readonly string[]): Validator => (value, path, errors) => {
+  if (typeof value !== 'string' || !options.includes(value)) {
+    errors.push(`${path}: expected one of ${options.map(option => `"${option}"`).join(', ')}, got ${describe(value)}`);
+  }
+};
+
+export const optional = (validator: Validator): Validator => (value, path, errors) => {
+  if (value !== undefined) validator(value, path, errors);
+};
+
+export const arrayOf = (item: Validator, { minLength = 0 } = {}): Validator => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected a list, got ${describe(value)}`);
+    return;
+  }
+  if (value.length < minLength) {
+    errors.push(`${path}: expected at least ${minLength} entr${minLength === 1 ? 'y' : 'ies'}, got ${value.length}`);
+  }
+  value.forEach((entry, index) => item(entry, `${path}[${index}]`, errors));
+};
+
+export const tuple = (...items: Validator[]): Validator => (value, path, errors) => {
+  if (!Array.isArray(value) || value.length !== items.length) {
+    errors.push(`${path}: expected a list of ${items.length} values, got ${describe(value)}`);
+    return;
+  }
+  items.forEach((item, index) => item(value[index], `${path}[${index}]`, errors));
+};
+
+// Unknown keys are reported too, since they're almost always typos
+export const object = (shape: Record<string, Validator>): Validator => (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path}: expected an object, got ${describe(value)}`);
+    return;
+  }
+  const record = value as Record<string, unknown>;
+  Object.entries(shape).forEach(([key, validator]) => validator(record[key], `${path}.${key}`, errors));
+  Object.keys(record)
+    .filter(key => !(key in shape))
+    .forEach(key => errors.push(`${path}.${key}: unknown field (expected one of ${Object.keys(shape).join(', ')})`));
+};
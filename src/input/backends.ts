@@ -0,0 +1,208 @@
+import { BUTTON_ACTIONS, ButtonAction, InputBindings, InputDevice, MoveDirection } from './bindings';
+
+// Screen-relative movement: x is right, y is forward. Its length is at most 1.
+export interface MoveAxis {
+  x: number;
+  y: number;
+}
+
+export const NO_MOVEMENT: MoveAxis = { x: 0, y: 0 };
+
+// What a backend reports to once it's attached
+export interface InputBackendHost {
+  getBindings: () => InputBindings;
+  press: (action: ButtonAction) => void;
+  // Offered every press before it becomes an action; true when a rebind took it
+  capture: (device: InputDevice, input: string | number) => boolean;
+}
+
+export interface InputBackend {
+  // Start listening, returning a function that stops
+  attach: (host: InputBackendHost) => () => void;
+  getMoveAxis: () => MoveAxis;
+  // Called once a frame, for devices that have to be polled
+  poll?: () => void;
+}
+
+// Turn the held directions into an axis, the same length whichever way it points
+function directionsToAxis(isHeld: (direction: MoveDirection) => boolean): MoveAxis {
+  const x = (isHeld('moveRight') ? 1 : 0) - (isHeld('moveLeft') ? 1 : 0);
+  const y = (isHeld('moveUp') ? 1 : 0) - (isHeld('moveDown') ? 1 : 0);
+  const length = Math.hypot(x, y);
+  return length > 0 ? { x: x / length, y: y / length } : NO_MOVEMENT;
+}
+
+export class KeyboardBackend implements InputBackend {
+  private held = new Set<string>();
+  private host: InputBackendHost | null = null;
+
+  attach(host: InputBackendHost): () => void {
+    this.host = host;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (host.capture('keyboard', e.code)) {
+        // Keep the key from doing anything else while it's being bound
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        return;
+      }
+
+      this.held.add(e.code);
+      if (e.repeat) return;
+
+      const { keyboard } = host.getBindings();
+      BUTTON_ACTIONS.forEach(action => {
+        if (keyboard[action].includes(e.code)) host.press(action);
+      });
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      this.held.delete(e.code);
+    };
+    // Keys released while the window is in the background never send keyup
+    const handleBlur = () => {
+      this.held.clear();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      this.held.clear();
+      this.host = null;
+    };
+  }
+
+  getMoveAxis(): MoveAxis {
+    if (!this.host) return NO_MOVEMENT;
+    const { keyboard } = this.host.getBindings();
+    return directionsToAxis(direction => keyboard[direction].some(code => this.held.has(code)));
+  }
+}
+
+// The left stick is ignored this close to the centre, so a worn stick doesn't drift
+export const STICK_DEAD_ZONE = 0.2;
+
+// Read the stick as an axis. Past the dead zone its distance from the centre is rescaled to 0-1, so
+// the player creeps along with the stick barely pushed and runs at full speed at the edge.
+export function readStick(stickX: number, stickY: number): MoveAxis {
+  const magnitude = Math.hypot(stickX, stickY);
+  if (magnitude <= STICK_DEAD_ZONE) return NO_MOVEMENT;
+
+  const scaled = Math.min(1, (magnitude - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE));
+  // The stick's up is negative
+  return { x: (stickX / magnitude) * scaled, y: (-stickY / magnitude) * scaled };
+}
+
+// A vibration, for pads that can
+export interface RumbleEffect {
+  // Milliseconds
+  duration: number;
+  // The low and high frequency motors, each 0-1
+  strong: number;
+  weak: number;
+}
+
+export const RUMBLE = {
+  // The boss lands a hit on the player
+  takeHit: { duration: 200, strong: 0.8, weak: 0.4 },
+  cardPickup: { duration: 80, strong: 0.1, weak: 0.5 }
+} satisfies Record<string, RumbleEffect>;
+
+export class GamepadBackend implements InputBackend {
+  private host: InputBackendHost | null = null;
+  // Buttons held at the last poll, so a press only fires once
+  private pressed = new Set<number>();
+  private axis: MoveAxis = NO_MOVEMENT;
+
+  attach(host: InputBackendHost): () => void {
+    this.host = host;
+    return () => {
+      this.host = null;
+      this.pressed.clear();
+      this.axis = NO_MOVEMENT;
+    };
+  }
+
+  // The first connected pad using the standard layout
+  private getGamepad(): Gamepad | null {
+    const gamepads = navigator.getGamepads?.() ?? [];
+    return gamepads.find((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected && gamepad.mapping === 'standard') ?? null;
+  }
+
+  poll() {
+    const host = this.host;
+    const gamepad = host && this.getGamepad();
+    if (!host || !gamepad) {
+      this.pressed.clear();
+      this.axis = NO_MOVEMENT;
+      return;
+    }
+
+    const { gamepad: bindings } = host.getBindings();
+    const pressed = new Set<number>();
+    gamepad.buttons.forEach((button, index) => {
+      if (button.pressed) pressed.add(index);
+    });
+
+    pressed.forEach(index => {
+      if (this.pressed.has(index) || host.capture('gamepad', index)) return;
+      BUTTON_ACTIONS.forEach(action => {
+        if (bindings[action].includes(index)) host.press(action);
+      });
+    });
+    this.pressed = pressed;
+
+    // The D-pad is all or nothing, the stick is analog; whichever is pushed further wins
+    const dpad = directionsToAxis(direction => bindings[direction].some(index => pressed.has(index)));
+    const [stickX = 0, stickY = 0] = gamepad.axes;
+    const stick = readStick(stickX, stickY);
+    this.axis = Math.hypot(dpad.x, dpad.y) >= Math.hypot(stick.x, stick.y) ? dpad : stick;
+  }
+
+  getMoveAxis(): MoveAxis {
+    return this.axis;
+  }
+
+  isConnected(): boolean {
+    return this.getGamepad() !== null;
+  }
+
+  // Vibrate the pad, where the browser and pad support it
+  rumble({ duration, strong, weak }: RumbleEffect) {
+    const actuator = this.getGamepad()?.vibrationActuator;
+    if (!actuator?.playEffect) return;
+
+    actuator.playEffect('dual-rumble', { duration, strongMagnitude: strong, weakMagnitude: weak })
+      .catch(error => console.log('Gamepad rumble failed:', error));
+  }
+}
+
+// Fed by the on-screen joystick in UI.tsx
+export class TouchBackend implements InputBackend {
+  private axis: MoveAxis = NO_MOVEMENT;
+
+  attach(): () => void {
+    return () => {
+      this.axis = NO_MOVEMENT;
+    };
+  }
+
+  // x is right and y is up the screen, each -1 to 1
+  setAxis(x: number, y: number) {
+    const length = Math.hypot(x, y);
+    this.axis = length > 1 ? { x: x / length, y: y / length } : { x, y };
+  }
+
+  release() {
+    this.axis = NO_MOVEMENT;
+  }
+
+  getMoveAxis(): MoveAxis {
+    return this.axis;
+  }
+}
+
@@ -0,0 +1,148 @@
+const BINDINGS_KEY = 'cloud-realm-controls';
+
+// The four directions of the move axis, each bound like a button
+export type MoveDirection = 'moveUp' | 'moveDown' | 'moveLeft' | 'moveRight';
+
+// Actions that fire once when their input is pressed
+export type ButtonAction = 'selectCard1' | 'selectCard2' | 'selectCard3' | 'pause' | 'restart' | 'retry';
+
+export type BindableAction = MoveDirection | ButtonAction;
+
+export const MOVE_DIRECTIONS: MoveDirection[] = ['moveUp', 'moveDown', 'moveLeft', 'moveRight'];
+export const BUTTON_ACTIONS: ButtonAction[] = ['selectCard1', 'selectCard2', 'selectCard3', 'pause', 'restart', 'retry'];
+export const BINDABLE_ACTIONS: BindableAction[] = [...MOVE_DIRECTIONS, ...BUTTON_ACTIONS];
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  moveUp: 'Move forward',
+  moveDown: 'Move back',
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  selectCard1: 'Take card 1',
+  selectCard2: 'Take card 2',
+  selectCard3: 'Take card 3',
+  pause: 'Pause / settings',
+  restart: 'Restart',
+  retry: 'Retry fight'
+};
+
+export type InputDevice = 'keyboard' | 'gamepad';
+
+export interface InputBindings {
+  // KeyboardEvent.code values, so bindings stay on the same keys whatever the keyboard layout
+  keyboard: Record<BindableAction, string[]>;
+  // Button indices in the standard gamepad layout. The left stick always moves as well, with a dead zone.
+  gamepad: Record<BindableAction, number[]>;
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    moveUp: ['KeyW'],
+    moveDown: ['KeyS'],
+    moveLeft: ['KeyA'],
+    moveRight: ['KeyD'],
+    selectCard1: ['Digit1'],
+    selectCard2: ['Digit2'],
+    selectCard3: ['Digit3'],
+    pause: ['Escape'],
+    restart: ['Space'],
+    retry: ['KeyR']
+  },
+  gamepad: {
+    // D-pad
+    moveUp: [12],
+    moveDown: [13],
+    moveLeft: [14],
+    moveRight: [15],
+    // Left, top and right face buttons
+    selectCard1: [2],
+    selectCard2: [3],
+    selectCard3: [1],
+    // Start
+    pause: [9],
+    // Either trigger
+    restart: [6, 7],
+    // Bottom face button
+    retry: [0]
+  }
+};
+
+// Names for the buttons of the standard gamepad layout, Xbox-style
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home'
+];
+
+const KEY_NAMES: Record<string, string> = {
+  Escape: 'Esc',
+  Space: 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→'
+};
+
+// How a binding is shown in the controls panel, e.g. "W", "1", "Esc", "LB"
+export function formatBinding(device: InputDevice, input: string | number): string {
+  if (device === 'gamepad') return GAMEPAD_BUTTON_NAMES[input as number] ?? `Button ${input}`;
+
+  const code = input as string;
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+// Rebuild valid bindings from whatever was stored, falling back to the default for anything malformed
+function sanitizeBindings(stored: Record<string, unknown>): InputBindings {
+  const keyboard = (stored.keyboard ?? {}) as Record<string, unknown>;
+  const gamepad = (stored.gamepad ?? {}) as Record<string, unknown>;
+  const bindings: InputBindings = {
+    keyboard: { ...DEFAULT_BINDINGS.keyboard },
+    gamepad: { ...DEFAULT_BINDINGS.gamepad }
+  };
+
+  BINDABLE_ACTIONS.forEach(action => {
+    const keys = keyboard[action];
+    if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+      bindings.keyboard[action] = keys;
+    }
+    const buttons = gamepad[action];
+    if (Array.isArray(buttons) && buttons.every(button => Number.isInteger(button) && button >= 0)) {
+      bindings.gamepad[action] = buttons;
+    }
+  });
+  return bindings;
+}
+
+export function loadBindings(storage: Storage = window.localStorage): InputBindings {
+  try {
+    const raw = storage.getItem(BINDINGS_KEY);
+    if (!raw) return DEFAULT_BINDINGS;
+    return sanitizeBindings(JSON.parse(raw) ?? {});
+  } catch (error) {
+    console.log('Failed to read control bindings, using defaults:', error);
+    return DEFAULT_BINDINGS;
+  }
+}
+
+export function saveBindings(bindings: InputBindings, storage: Storage = window.localStorage) {
+  try {
+    storage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.log('Failed to save control bindings:', error);
+  }
+}
+
+// Bind an input to an action on its own, taking it off any other action it was bound to
+export function rebind(
+  bindings: InputBindings,
+  device: InputDevice,
+  action: BindableAction,
+  input: string | number
+): InputBindings {
+  const deviceBindings = { ...bindings[device] } as Record<BindableAction, (string | number)[]>;
+  BINDABLE_ACTIONS.forEach(other => {
+    deviceBindings[other] = deviceBindings[other].filter(bound => bound !== input);
+  });
+  deviceBindings[action] = [input];
+  return { ...bindings, [device]: deviceBindings };
+}
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InputManager } from './inputManager';
+import { ButtonAction, DEFAULT_BINDINGS, loadBindings, rebind, saveBindings } from './bindings';
+import { readStick, RUMBLE } from './backends';
+
+const press = (code: string, init: KeyboardEventInit = {}) =>
+  window.dispatchEvent(new KeyboardEvent('keydown', { code, ...init }));
+const release = (code: string) => window.dispatchEvent(new KeyboardEvent('keyup', { code }));
+
+describe('InputManager', () => {
+  let manager: InputManager;
+  let detach: () => void;
+  let actions: ButtonAction[];
+
+  beforeEach(() => {
+    manager = new InputManager(DEFAULT_BINDINGS);
+    detach = manager.attach();
+    actions = [];
+    manager.onAction(action => actions.push(action));
+  });
+
+  afterEach(() => {
+    detach();
+  });
+
+  it('turns bound keys into actions, once per press', () => {
+    press('Digit2');
+    press('Digit2', { repeat: true });
+    press('Escape');
+    press('KeyQ');
+
+    expect(actions).toEqual(['selectCard2', 'pause']);
+  });
+
+  it('moves the same speed diagonally as straight on', () => {
+    press('KeyW');
+    press('KeyD');
+    const axis = manager.getMoveAxis();
+
+    expect(axis.x).toBeCloseTo(Math.SQRT1_2);
+    expect(axis.y).toBeCloseTo(Math.SQRT1_2);
+
+    release('KeyW');
+    release('KeyD');
+    expect(manager.getMoveAxis()).toEqual({ x: 0, y: 0 });
+  });
+
+  it('moves with whichever device is pushed furthest', () => {
+    press('KeyA');
+    manager.touch.setAxis(0.2, 0.1);
+    expect(manager.getMoveAxis()).toEqual({ x: -1, y: 0 });
+
+    release('KeyA');
+    expect(manager.getMoveAxis()).toEqual({ x: 0.2, y: 0.1 });
+
+    // The joystick can't push faster than full speed
+    manager.touch.setAxis(3, 4);
+    expect(manager.getMoveAxis()).toEqual({ x: 0.6, y: 0.8 });
+  });
+
+  it('hands the next key to a rebind instead of acting on it', () => {
+    let captured: string | number | null = null;
+    manager.captureNext('keyboard', input => {
+      captured = input;
+      manager.setBindings(rebind(manager.getBindings(), 'keyboard', 'selectCard1', input));
+    });
+
+    press('Digit2');
+    expect(captured).toBe('Digit2');
+    expect(actions).toEqual([]);
+
+    // Digit2 now takes card 1 and nothing takes card 2
+    press('Digit2');
+    press('Digit1');
+    expect(actions).toEqual(['selectCard1']);
+    expect(manager.getBindings().keyboard.selectCard2).toEqual([]);
+  });
+});
+
+// A standard-layout pad with the given buttons held and the left stick at (x, y)
+function createGamepad(held: number[] = [], x = 0, y = 0) {
+  return {
+    connected: true,
+    mapping: 'standard',
+    axes: [x, y, 0, 0],
+    buttons: Array.from({ length: 17 }, (_, index) => ({ pressed: held.includes(index), touched: false, value: 0 })),
+    vibrationActuator: { playEffect: vi.fn(() => Promise.resolve('complete')) }
+  };
+}
+
+describe('GamepadBackend', () => {
+  let manager: InputManager;
+  let detach: () => void;
+  let actions: ButtonAction[];
+  let gamepad: ReturnType<typeof createGamepad>;
+
+  beforeEach(() => {
+    gamepad = createGamepad();
+    Object.defineProperty(navigator, 'getGamepads', { value: () => [null, gamepad], configurable: true });
+    manager = new InputManager(DEFAULT_BINDINGS);
+    detach = manager.attach();
+    actions = [];
+    manager.onAction(action => actions.push(action));
+  });
+
+  afterEach(() => {
+    detach();
+    Reflect.deleteProperty(navigator, 'getGamepads');
+  });
+
+  it('ignores the stick inside the dead zone and scales it up to full speed outside', () => {
+    expect(readStick(0.15, -0.1)).toEqual({ x: 0, y: 0 });
+
+    const halfway = readStick(0, -0.6);
+    expect(halfway.x).toBeCloseTo(0);
+    expect(halfway.y).toBeCloseTo(0.5);
+    // Pushed into the corner is still only full speed
+    const corner = readStick(1, 1);
+    expect(corner.x).toBeCloseTo(Math.SQRT1_2);
+    expect(corner.y).toBeCloseTo(-Math.SQRT1_2);
+  });
+
+  it('moves with the stick, or the D-pad when it is pushed further', () => {
+    gamepad = createGamepad([], -0.6, 0);
+    manager.poll();
+    expect(manager.getMoveAxis().x).toBeCloseTo(-0.5);
+
+    gamepad = createGamepad([12], -0.6, 0);
+    manager.poll();
+    expect(manager.getMoveAxis()).toEqual({ x: 0, y: 1 });
+  });
+
+  it('fires face buttons and triggers once per press', () => {
+    gamepad = createGamepad([2]);
+    manager.poll();
+    manager.poll();
+    gamepad = createGamepad([2, 7]);
+    manager.poll();
+
+    expect(actions).toEqual(['selectCard1', 'restart']);
+  });
+
+  it('rumbles the pad when asked', () => {
+    manager.rumble(RUMBLE.cardPickup);
+
+    expect(gamepad.vibrationActuator.playEffect).toHaveBeenCalledWith('dual-rumble', {
+      duration: RUMBLE.cardPickup.duration,
+      strongMagnitude: RUMBLE.cardPickup.strong,
+      weakMagnitude: RUMBLE.cardPickup.weak
+    });
+  });
+});
+
+describe('bindings storage', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('round-trips saved bindings', () => {
+    const bindings = rebind(DEFAULT_BINDINGS, 'gamepad', 'pause', 4);
+    saveBindings(bindings);
+
+    expect(loadBindings()).toEqual(bindings);
+  });
+
+  it('falls back to the default for anything malformed', () => {
+    window.localStorage.setItem('cloud-realm-controls', JSON.stringify({
+      keyboard: { moveUp: ['ArrowUp'], moveDown: 'KeyS' },
+      gamepad: { pause: [-1] }
+    }));
+    const bindings = loadBindings();
+
+    expect(bindings.keyboard.moveUp).toEqual(['ArrowUp']);
+    expect(bindings.keyboard.moveDown).toEqual(DEFAULT_BINDINGS.keyboard.moveDown);
+    expect(bindings.gamepad.pause).toEqual(DEFAULT_BINDINGS.gamepad.pause);
+  });
+});
@@ -0,0 +1,111 @@
+import { useSyncExternalStore } from 'react';
+import { ButtonAction, InputBindings, InputDevice, loadBindings, saveBindings } from './bindings';
+import { GamepadBackend, InputBackend, InputBackendHost, KeyboardBackend, MoveAxis, NO_MOVEMENT, RumbleEffect, TouchBackend } from './backends';
+
+type ActionListener = (action: ButtonAction) => void;
+type CaptureListener = (input: string | number) => void;
+
+// Every way of controlling the game, behind one set of actions. Backends turn keys, buttons and
+// the touch joystick into a move axis and button presses, using the player's bindings.
+export class InputManager {
+  readonly keyboard = new KeyboardBackend();
+  readonly gamepad = new GamepadBackend();
+  readonly touch = new TouchBackend();
+  private backends: InputBackend[];
+  private bindings: InputBindings;
+  private storage: Storage | null;
+  private actionListeners = new Set<ActionListener>();
+  private bindingListeners = new Set<() => void>();
+  // Waiting for the next press on a device to rebind an action
+  private pendingCapture: { device: InputDevice; listener: CaptureListener } | null = null;
+  private detachBackends: (() => void) | null = null;
+
+  constructor(bindings: InputBindings, storage: Storage | null = null) {
+    this.bindings = bindings;
+    this.storage = storage;
+    this.backends = [this.keyboard, this.gamepad, this.touch];
+  }
+
+  // Start listening on every backend. Returns a function that stops.
+  attach(): () => void {
+    this.detachBackends?.();
+
+    const host: InputBackendHost = {
+      getBindings: () => this.bindings,
+      press: action => this.actionListeners.forEach(listener => listener(action)),
+      capture: (device, input) => {
+        if (this.pendingCapture?.device !== device) return false;
+        const { listener } = this.pendingCapture;
+        this.pendingCapture = null;
+        listener(input);
+        return true;
+      }
+    };
+    const detachers = this.backends.map(backend => backend.attach(host));
+
+    const detach = () => {
+      detachers.forEach(detachBackend => detachBackend());
+      if (this.detachBackends === detach) this.detachBackends = null;
+    };
+    this.detachBackends = detach;
+    return detach;
+  }
+
+  // Read devices that have to be polled. Call once a frame.
+  poll() {
+    this.backends.forEach(backend => backend.poll?.());
+  }
+
+  // Whichever device is pushed furthest moves the player
+  getMoveAxis(): MoveAxis {
+    return this.backends.reduce<MoveAxis>((strongest, backend) => {
+      const axis = backend.getMoveAxis();
+      return Math.hypot(axis.x, axis.y) > Math.hypot(strongest.x, strongest.y) ? axis : strongest;
+    }, NO_MOVEMENT);
+  }
+
+  // Feedback for the player's hands; does nothing without a pad that can vibrate
+  rumble(effect: RumbleEffect) {
+    this.gamepad.rumble(effect);
+  }
+
+  // Hear about button actions as they're pressed. Returns a function that stops listening.
+  onAction(listener: ActionListener): () => void {
+    this.actionListeners.add(listener);
+    return () => {
+      this.actionListeners.delete(listener);
+    };
+  }
+
+  getBindings = (): InputBindings => this.bindings;
+
+  setBindings(bindings: InputBindings) {
+    this.bindings = bindings;
+    if (this.storage) saveBindings(bindings, this.storage);
+    this.bindingListeners.forEach(listener => listener());
+  }
+
+  subscribeBindings = (listener: () => void): (() => void) => {
+    this.bindingListeners.add(listener);
+    return () => {
+      this.bindingListeners.delete(listener);
+    };
+  };
+
+  // Hand the next press on a device to the listener instead of acting on it, to rebind an action.
+  // Returns a function that cancels the wait.
+  captureNext(device: InputDevice, listener: CaptureListener): () => void {
+    const capture = { device, listener };
+    this.pendingCapture = capture;
+    return () => {
+      if (this.pendingCapture === capture) this.pendingCapture = null;
+    };
+  }
+}
+
+// The input shared by the whole game, with the player's saved bindings
+export const inputManager = new InputManager(loadBindings(), window.localStorage);
+
+export function useInputBindings(): InputBindings {
+  return useSyncExternalStore(inputManager.subscribeBindings, inputManager.getBindings);
+}
@@ -0,0 +1,179 @@
+import { ItemCategory, ItemId, StatusType } from '../types/game';
+
+// Everything the game needs to know about a collectable card. Adding an item means adding one entry here.
+export interface ItemDefinition {
+  id: ItemId;
+  category: ItemCategory;
+  label: string;
+  cardTexture: string;
+  // Model shown orbiting the camera once collected (weapons and armour)
+  modelPath?: string;
+  scale?: number;
+  // How the orbiting model moves: weapons spin or punch, armour sways, twirls or flips
+  animation?: 'spin' | 'punch' | 'sway' | 'twirl' | 'flip';
+  // Spoken when the card is collected
+  voiceClip: string;
+  // Looped while the boss fight is on (weapons and magic)
+  attackSound?: string;
+  // Particles and light the magic wraps around the boss
+  effect?: {
+    particles: 'rain' | 'embers' | 'hearts';
+    color: string;
+    lightIntensity: number;
+  };
+  stats: {
+    // Added to the base damage of each attack
+    damageBonus?: number;
+    // Multiplies the damage of each attack after bonuses
+    damageMultiplier?: number;
+    // Share of each boss hit absorbed (armour)
+    damageReduction?: number;
+    // Status inflicted on the boss when attacks land (magic)
+    status?: StatusType;
+  };
+}
+
+export const ITEMS: ItemDefinition[] = [
+  // Weapons
+  {
+    id: 'sword',
+    category: 'weapon',
+    label: 'Sword',
+    cardTexture: '/models/card-sword.png',
+    modelPath: '/models/sword.glb',
+    scale: 0.6,
+    animation: 'spin',
+    voiceClip: '/models/voice-sword.mp3',
+    attackSound: '/models/attack-sword.mp3',
+    stats: { damageBonus: 2 }
+  },
+  {
+    id: 'fist',
+    category: 'weapon',
+    label: 'Fist',
+    cardTexture: '/models/card-fists.png',
+    modelPath: '/models/fists.glb',
+    scale: 0.4,
+    animation: 'punch',
+    voiceClip: '/models/voice-fist.mp3',
+    attackSound: '/models/attack-fists.mp3',
+    stats: { damageBonus: 1 }
+  },
+  {
+    id: 'axe',
+    category: 'weapon',
+    label: 'Axe',
+    cardTexture: '/models/card-axe.png',
+    modelPath: '/models/axe.glb',
+    scale: 0.5,
+    animation: 'spin',
+    voiceClip: '/models/voice-axe.mp3',
+    attackSound: '/models/attack-axe.mp3',
+    stats: { damageBonus: 3 }
+  },
+
+  // Armour
+  {
+    id: 'steel',
+    category: 'armour',
+    label: 'Steel',
+    cardTexture: '/models/card-steel.png',
+    modelPath: '/models/steel.glb',
+    scale: 0.2,
+    animation: 'sway',
+    voiceClip: '/models/voice-steel.mp3',
+    stats: { damageBonus: 2, damageReduction: 0.3 }
+  },
+  {
+    id: 'knowledge',
+    category: 'armour',
+    label: 'Knowledge',
+    cardTexture: '/models/card-knowledge.png',
+    modelPath: '/models/book.glb',
+    scale: 0.3,
+    animation: 'flip',
+    voiceClip: '/models/voice-knowledge.mp3',
+    stats: { damageBonus: 3, damageReduction: 0.15 }
+  },
+  {
+    id: 'gold',
+    category: 'armour',
+    label: 'Gold',
+    cardTexture: '/models/card-gold.png',
+    modelPath: '/models/gold.glb',
+    scale: 0.2,
+    animation: 'twirl',
+    voiceClip: '/models/voice-gold.mp3',
+    stats: { damageBonus: 1, damageReduction: 0.4 }
+  },
+
+  // Magic
+  {
+    id: 'fire',
+    category: 'magic',
+    label: 'Fire',
+    cardTexture: '/models/card-fire.png',
+    voiceClip: '/models/voice-fire.mp3',
+    attackSound: '/models/attack-fire.mp3',
+    effect: { particles: 'embers', color: '#ff5500', lightIntensity: 3 },
+    stats: { damageMultiplier: 1.5, status: 'burn' }
+  },
+  {
+    id: 'water',
+    category: 'magic',
+    label: 'Water',
+    cardTexture: '/models/card-water.png',
+    voiceClip: '/models/voice-water.mp3',
+    attackSound: '/models/attack-water.mp3',
+    effect: { particles: 'rain', color: '#00aaff', lightIntensity: 2 },
+    stats: { damageMultiplier: 1.2, status: 'slow' }
+  },
+  {
+    id: 'love',
+    category: 'magic',
+    label: 'Love',
+    cardTexture: '/models/card-love.png',
+    voiceClip: '/models/voice-love.mp3',
+    attackSound: '/models/attack-love.mp3',
+    effect: { particles: 'hearts', color: '#ff00aa', lightIntensity: 2.5 },
+    stats: { damageMultiplier: 1.3, status: 'charm' }
+  }
+];
+
+export interface StageDefinition {
+  category: ItemCategory;
+  title: string;
+}
+
+// The bridge's card stages, in the order the player reaches them
+export const STAGES: StageDefinition[] = [
+  { category: 'weapon', title: 'WEAPON' },
+  { category: 'armour', title: 'ARMOUR' },
+  { category: 'magic', title: 'MAGIC' }
+];
+
+// World z of the first stage and the gap between stages
+const FIRST_STAGE_Z = 10;
+const STAGE_SPACING = 15;
+
+// Horizontal gap between cards in a stage
+const CARD_SPACING = 2;
+
+export function getItem(id: ItemId): ItemDefinition | undefined {
+  return ITEMS.find(item => item.id === id);
+}
+
+export const getItemsByCategory = (category: ItemCategory): ItemDefinition[] =>
+  ITEMS.filter(item => item.category === category);
+
+export const getStageZ = (stage: number): number => FIRST_STAGE_Z + stage * STAGE_SPACING;
+
+// A stage's cards laid out in world space, centred across the bridge
+export function getStageCards(stage: number): { item: ItemDefinition; x: number; z: number }[] {
+  const items = getItemsByCategory(STAGES[stage].category);
+  return items.map((item, index) => ({
+    item,
+    x: (index - (items.length - 1) / 2) * CARD_SPACING,
+    z: getStageZ(stage)
+  }));
+}
@@ -1,10 +1,18 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import ContentPackErrors from './components/ContentPackErrors.tsx';
+import { loadContentPack, applyContentPack } from './content/contentPack';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+// Content packs have to be in place before anything reads the item registry or boss
+loadContentPack().then(({ pack, errors }) => {
+  if (pack) applyContentPack(pack);
+  if (errors.length > 0) console.error('Content pack errors:', errors);
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      {errors.length > 0 ? <ContentPackErrors errors={errors} /> : <App />}
+    </StrictMode>
+  );
+});
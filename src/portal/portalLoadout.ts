@@ -0,0 +1,80 @@
+import { GameState, SavedRun } from '../types/game';
+import { STAGES, getItem, getStageCards } from '../items/registry';
+import { PortalParams, inboundPortal } from './portalParams';
+
+// Our own params ride along with the rest of the Vibeverse ones, so keep them clearly ours
+const LOADOUT_PARAM_PREFIX = 'cloudrealm_';
+
+const VICTORY_PARAM = `${LOADOUT_PARAM_PREFIX}victory`;
+
+// Where a returning player with a full loadout lands - in front of the boss, like a retry
+const BOSS_APPROACH_POSITION = { x: 0, z: 45 };
+
+// What a player brought back from a trip through the exit portal
+export interface PortalLoadout {
+  run: SavedRun;
+  // They'd already beaten the boss before leaving
+  victorious: boolean;
+}
+
+export const isLoadoutParam = (key: string): boolean => key.startsWith(LOADOUT_PARAM_PREFIX);
+
+// The loadout and victory as namespaced params, e.g. cloudrealm_weapon=sword
+export function encodeLoadoutParams(state: GameState): [string, string][] {
+  const params: [string, string][] = [];
+  STAGES.forEach(({ category }) => {
+    const card = state[category];
+    if (card !== null) params.push([`${LOADOUT_PARAM_PREFIX}${category}`, card]);
+  });
+  if (state.bossDefeated) params.push([VICTORY_PARAM, 'true']);
+  return params;
+}
+
+// Rebuild the run from the namespaced params. Cards are only kept in bridge order and only if
+// they still exist, so a link from an older version or a different content pack can't break the game.
+export function decodeLoadoutParams(params: PortalParams): PortalLoadout | null {
+  const values = new Map(params.extra.filter(([key]) => isLoadoutParam(key)));
+  if (values.size === 0) return null;
+
+  const run: SavedRun = {
+    weapon: null,
+    armour: null,
+    magic: null,
+    stage: 0,
+    collectedBlocks: [],
+    position: { x: 0, z: 0 },
+    bossHealth: 100,
+    playerHealth: params.hp ?? 100
+  };
+
+  let filled = 0;
+  for (const [index, { category }] of STAGES.entries()) {
+    const card = values.get(`${LOADOUT_PARAM_PREFIX}${category}`);
+    if (!card || getItem(card)?.category !== category) break;
+
+    run[category] = card;
+    // Mark the card as picked up, exactly where it sits on the bridge
+    const picked = getStageCards(index).find(({ item }) => item.id === card);
+    if (picked) run.collectedBlocks.push({ x: picked.x, z: picked.z });
+    filled += 1;
+  }
+
+  if (filled === 0) return null;
+
+  run.stage = Math.min(filled, STAGES.length - 1);
+  // A complete loadout skips the card stages and goes straight to the boss
+  if (filled === STAGES.length) run.position = { ...BOSS_APPROACH_POSITION };
+
+  return { run, victorious: values.get(VICTORY_PARAM) === 'true' };
+}
+
+// Drop our params from the address bar once they've been used, so a refresh doesn't restore them again
+export function clearLoadoutParams() {
+  const url = new URL(window.location.href);
+  [...url.searchParams.keys()].filter(isLoadoutParam).forEach(key => url.searchParams.delete(key));
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+// The loadout this page was opened with, if the player came back through a portal carrying one.
+// Read on demand rather than on import, so it's checked against any content pack's stages and items.
+export const getInboundLoadout = (): PortalLoadout | null => decodeLoadoutParams(inboundPortal);
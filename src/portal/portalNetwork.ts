@@ -0,0 +1,80 @@
+import { GameState } from '../types/game';
+import { inboundPortal } from './portalParams';
+import { DistanceCurve } from '../audio/audioManager';
+import { SOUNDS } from '../audio/sounds';
+
+// Where stepping through a portal takes the player
+export type PortalDestination =
+  // Back to the game in ?ref=, with the params the player arrived with
+  | { type: 'return' }
+  // On to another Vibeverse game, carrying the player's params - the hub when no url is given
+  | { type: 'vibeverse'; url?: string }
+  // Somewhere else on the bridge, without leaving the game
+  | { type: 'checkpoint'; position: { x: number; z: number } };
+
+// Named conditions a portal can wait for before it appears
+export type PortalUnlock = 'always' | 'hasAllItems' | 'bossDefeated';
+
+export interface PortalConfig {
+  id: string;
+  position: { x: number; y: number; z: number };
+  radius: number;
+  // Turn the portal around its vertical axis, e.g. to face back down the bridge
+  rotationY?: number;
+  color: number;
+  label: string;
+  labelColor?: string;
+  // Small text above the ring, or larger text just in front of it
+  labelPlacement?: 'above' | 'front';
+  destination: PortalDestination;
+  unlock?: PortalUnlock;
+  // Ask "Leave Cloud Realm?" before stepping through
+  confirm?: boolean;
+  // A loop played from the portal that gets louder as the player approaches
+  ambientSound?: string;
+  // Overrides the usual portal distance curve for the ambient loop
+  ambientDistance?: Partial<DistanceCurve>;
+}
+
+// Destinations that take the player out of the game
+export const leavesGame = (destination: PortalDestination): boolean =>
+  destination.type === 'return' || destination.type === 'vibeverse';
+
+const UNLOCK_CONDITIONS: Record<PortalUnlock, (state: GameState) => boolean> = {
+  always: () => true,
+  hasAllItems: state => state.weapon !== null && state.armour !== null && state.magic !== null,
+  bossDefeated: state => state.bossDefeated
+};
+
+export const isPortalUnlocked = (portal: PortalConfig, state: GameState): boolean =>
+  UNLOCK_CONDITIONS[portal.unlock ?? 'always'](state);
+
+// Every portal in the realm. Add partner games as 'vibeverse' portals with their url, or
+// reward portals as 'checkpoint' portals locked behind a condition.
+export const PORTALS: PortalConfig[] = [
+  {
+    id: 'start',
+    // Behind the player's starting point, within the movement range (-20 to 300)
+    position: { x: 0, y: 0.1, z: -10 },
+    radius: 2.5,
+    // Face toward positive Z, where the player starts
+    rotationY: Math.PI,
+    color: 0xff0000,
+    // If coming from a portal, this acts as the return portal
+    label: inboundPortal.portal ? 'Return' : 'Go Back',
+    labelPlacement: 'above',
+    destination: { type: 'return' },
+    ambientSound: SOUNDS.portalHum
+  },
+  {
+    id: 'exit',
+    // After the card stages, which start at z=10 with 15 units between them
+    position: { x: 0, y: 0.1, z: 100 },
+    radius: 2.5,
+    color: 0x00ff00,
+    label: 'To Vibeverse',
+    destination: { type: 'vibeverse' },
+    confirm: true,
+    ambientSound: SOUNDS.portalHum
+  }
+];
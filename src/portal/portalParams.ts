@@ -0,0 +1,83 @@
+// The Vibeverse portal protocol: games pass the player along to each other through query params.
+// Known params are parsed into typed fields; anything else is kept as-is so it survives the trip.
+export interface PortalParams {
+  // True when the player arrived through another game's portal
+  portal: boolean;
+  username?: string;
+  color?: string;
+  // Walking speed in the hub's units (metres per second)
+  speed?: number;
+  // Host and path of the game to return to, without a protocol
+  ref?: string;
+  avatarUrl?: string;
+  team?: string;
+  // Player health, 1-100
+  hp?: number;
+  // Every param we don't recognise, in its original order
+  extra: [string, string][];
+}
+
+// Where the "To Vibeverse" portal leads, unless VITE_PORTAL_HUB_URL says otherwise
+export const PORTAL_HUB_URL: string = import.meta.env.VITE_PORTAL_HUB_URL ?? 'https://portal.pieter.com';
+
+// The speed sent when nothing better is known, and the one Player.tsx's own speed corresponds to
+export const DEFAULT_PORTAL_SPEED = 3;
+
+const KNOWN_PARAMS = ['portal', 'username', 'color', 'speed', 'ref', 'avatar_url', 'team', 'hp'];
+
+const parseNumber = (value: string | null, min: number, max: number): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : undefined;
+};
+
+const parseString = (value: string | null): string | undefined =>
+  value !== null && value.trim() !== '' ? value : undefined;
+
+export function parsePortalParams(search: string | URLSearchParams): PortalParams {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+
+  return {
+    portal: params.get('portal') === 'true',
+    username: parseString(params.get('username')),
+    color: parseString(params.get('color')),
+    speed: parseNumber(params.get('speed'), 0, 100),
+    ref: parseString(params.get('ref')),
+    avatarUrl: parseString(params.get('avatar_url')),
+    team: parseString(params.get('team')),
+    hp: parseNumber(params.get('hp'), 1, 100),
+    extra: [...params].filter(([key]) => !KNOWN_PARAMS.includes(key))
+  };
+}
+
+export function serializePortalParams(params: PortalParams): URLSearchParams {
+  const result = new URLSearchParams();
+
+  if (params.portal) result.append('portal', 'true');
+  if (params.username !== undefined) result.append('username', params.username);
+  if (params.color !== undefined) result.append('color', params.color);
+  if (params.speed !== undefined) result.append('speed', String(params.speed));
+  if (params.ref !== undefined) result.append('ref', params.ref);
+  if (params.avatarUrl !== undefined) result.append('avatar_url', params.avatarUrl);
+  if (params.team !== undefined) result.append('team', params.team);
+  if (params.hp !== undefined) result.append('hp', String(Math.round(params.hp)));
+  params.extra.forEach(([key, value]) => result.append(key, value));
+
+  return result;
+}
+
+// How much faster or slower than usual a visiting player should move, from their inbound speed
+export function getSpeedMultiplier(params: PortalParams): number {
+  if (params.speed === undefined || params.speed <= 0) return 1;
+  return Math.min(2, Math.max(0.5, params.speed / DEFAULT_PORTAL_SPEED));
+}
+
+// Append the params to a destination, keeping any query the destination already has
+export function buildPortalUrl(destination: string, params: PortalParams): string {
+  const query = serializePortalParams(params).toString();
+  if (!query) return destination;
+  return destination + (destination.includes('?') ? '&' : '?') + query;
+}
+
+// The params this page was opened with, read once on load
+export const inboundPortal: PortalParams = parsePortalParams(window.location.search);
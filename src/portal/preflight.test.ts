@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { preflightDestination } from './preflight';
+
+const DESTINATION = 'https://partner.example/';
+const blockedByCors = () => Promise.reject(new TypeError('Failed to fetch'));
+const opaque = () => Promise.resolve(new Response(null, { status: 200 }));
+
+describe('preflightDestination', () => {
+  it('fails a destination that answers CORS with an error status', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 404 }));
+
+    expect(await preflightDestination(DESTINATION, { fetch })).toEqual({ ok: false, reason: 'HTTP 404' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to an opaque request when CORS is refused, trusting any answer', async () => {
+    const fetch = vi.fn().mockImplementationOnce(blockedByCors).mockImplementationOnce(opaque);
+
+    expect(await preflightDestination(DESTINATION, { fetch })).toEqual({ ok: true });
+    expect(fetch.mock.calls.map(([, init]) => init.mode)).toEqual(['cors', 'no-cors']);
+  });
+
+  it("fails a destination that doesn't answer either way", async () => {
+    const fetch = vi.fn().mockImplementation(blockedByCors);
+
+    expect(await preflightDestination(DESTINATION, { fetch })).toEqual({ ok: false, reason: 'Failed to fetch' });
+  });
+
+  it('lets an https page through to an http destination without asking', async () => {
+    const fetch = vi.fn(blockedByCors);
+
+    expect(await preflightDestination('http://partner.example/', { fetch, pageUrl: 'https://cloud.example/' })).toEqual({ ok: true });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the timeout', async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>((_url, init) => new Promise((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    expect(await preflightDestination(DESTINATION, { fetch, timeout: 10 })).toEqual({ ok: false, reason: 'no response within 0.01s' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,90 @@
+// Before a portal takes the player to another site, check the site is actually there.
+// Sites that don't allow CORS can only be checked for answering at all, not for answering with an error.
+export interface PreflightOptions {
+  // Give up and call the destination unreachable after this many milliseconds
+  timeout: number;
+  method: 'HEAD' | 'GET';
+  // Swappable so tests can point at a stub server or fake responses
+  fetch: typeof fetch;
+  // The page asking, which decides whether the browser will let it ask at all. Defaults to this page.
+  pageUrl: string;
+}
+
+export type PreflightResult = { ok: true } | { ok: false; reason: string };
+
+export const DEFAULT_PREFLIGHT: Omit<PreflightOptions, 'pageUrl'> = {
+  timeout: 3000,
+  method: 'HEAD',
+  fetch: (...args) => window.fetch(...args)
+};
+
+export async function preflightDestination(
+  url: string,
+  options: Partial<PreflightOptions> = {}
+): Promise<PreflightResult> {
+  const { timeout, method, fetch, pageUrl = window.location.href } = { ...DEFAULT_PREFLIGHT, ...options };
+
+  // An https page can't fetch an http site in any mode - the browser blocks it as mixed content - but
+  // it can still navigate there, so there's nothing to check
+  if (isMixedContent(url, pageUrl)) return { ok: true };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  const request = (mode: RequestMode) => fetch(url, { method, mode, cache: 'no-store', signal: controller.signal });
+
+  try {
+    // Ask properly first, so a destination that allows CORS can be caught returning an error page
+    let response: Response | null = null;
+    try {
+      response = await request('cors');
+    } catch (error) {
+      if (controller.signal.aborted) throw error;
+    }
+    if (response) return response.ok ? { ok: true } : { ok: false, reason: `HTTP ${response.status}` };
+
+    // Most games don't allow CORS, which fails the same way as a network error. Ask again for an opaque
+    // response: that only tells us the site answered, so a 404 or 500 page still counts as reachable.
+    await request('no-cors');
+    return { ok: true };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { ok: false, reason: `no response within ${timeout / 1000}s` };
+    }
+    return { ok: false, reason: (error as Error).message || 'network error' };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isMixedContent(url: string, pageUrl: string): boolean {
+  try {
+    return new URL(pageUrl).protocol === 'https:' && new URL(url, pageUrl).protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// Warm up the connection to a destination and let the browser fetch its page in the background.
+// Returns a function that takes the hints back out of the document.
+export function addPrefetchHints(url: string): () => void {
+  let origin: string;
+  try {
+    origin = new URL(url, window.location.href).origin;
+  } catch {
+    return () => {};
+  }
+
+  const links = [
+    { rel: 'preconnect', href: origin },
+    { rel: 'prefetch', href: url }
+  ].map(({ rel, href }) => {
+    const link = document.createElement('link');
+    link.rel = rel;
+    link.href = href;
+    document.head.appendChild(link);
+    return link;
+  });
+
+  return () => links.forEach(link => link.remove());
+}
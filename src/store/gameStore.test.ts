@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createGameStore, createSliceReader, gameActions, shallowEqual } from './gameStore';
+import { GameState } from '../types/game';
+
+const selectHealth = (state: GameState) => ({ player: state.playerHealth, boss: state.bossHealth });
+
+describe('createSliceReader', () => {
+  it('hands back the same object while the state is unchanged', () => {
+    const store = createGameStore();
+    const read = createSliceReader(store);
+
+    const first = read(selectHealth);
+    expect(read(selectHealth)).toBe(first);
+
+    store.dispatch(gameActions.damagePlayer(10));
+    const hurt = read(selectHealth);
+    expect(hurt).not.toBe(first);
+    expect(hurt).toEqual({ player: 90, boss: 100 });
+  });
+
+  it('keeps the last object through changes to the rest of the state when told how to compare', () => {
+    const store = createGameStore();
+    const read = createSliceReader(store, shallowEqual);
+
+    const first = read(selectHealth);
+    store.dispatch(gameActions.moveTo(0, 20));
+
+    expect(read(selectHealth)).toBe(first);
+  });
+});
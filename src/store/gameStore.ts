@@ -0,0 +1,212 @@
+import { useState, useSyncExternalStore } from 'react';
+import { GameState, ItemId, SavedRun, StatusType } from '../types/game';
+import { STAGES, getItem } from '../items/registry';
+
+export type CardType = ItemId;
+
+// Every state transition in the game goes through one of these actions
+export type GameAction =
+  | { type: 'selectCard'; stage: number; card: CardType; x: number; z: number }
+  | { type: 'moveTo'; x: number; z: number }
+  | { type: 'damageBoss'; amount: number }
+  | { type: 'damagePlayer'; amount: number }
+  | { type: 'applyBossStatus'; status: StatusType; duration: number; appliedAt: number }
+  | { type: 'expireBossStatus'; status: StatusType }
+  | { type: 'setInvulnerable'; isInvulnerable: boolean }
+  | { type: 'restart' }
+  | { type: 'retry' }
+  | { type: 'resume'; run: SavedRun }
+  | { type: 'fallOff' };
+
+type Listener = () => void;
+
+export interface GameStore {
+  getState: () => GameState;
+  dispatch: (action: GameAction) => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+export const createInitialGameState = (): GameState => ({
+  weapon: null,
+  armour: null,
+  magic: null,
+  position: { x: 0, z: 0 },
+  stage: 0,
+  collectedBlocks: [],
+  isInvulnerable: false,
+  bossHealth: 100,
+  bossDefeated: false,
+  bossStatuses: [],
+  playerHealth: 100,
+  playerDefeated: false
+});
+
+// Where a retry drops the player - just past the last card stage, in front of the boss
+const RETRY_POSITION = { x: 0, z: 45 };
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'selectCard': {
+      // Ignore selections for a stage the player isn't on, cards that don't belong to it, or a filled stage
+      if (action.stage !== state.stage) return state;
+      const { category } = STAGES[action.stage];
+      if (getItem(action.card)?.category !== category) return state;
+      if (state[category] !== null) return state;
+
+      return {
+        ...state,
+        [category]: action.card,
+        stage: Math.min(state.stage + 1, STAGES.length - 1),
+        collectedBlocks: [...state.collectedBlocks, { x: action.x, z: action.z }]
+      };
+    }
+
+    case 'moveTo':
+      // A teleport - always a new position, so the live position (see positionStore.ts) jumps to it
+      // even when the player was put on the same spot before. Walking doesn't go through the store.
+      return { ...state, position: { x: action.x, z: action.z } };
+
+    case 'damageBoss': {
+      if (state.bossDefeated || state.playerDefeated) return state;
+      const bossHealth = Math.max(0, state.bossHealth - action.amount);
+      const bossDefeated = bossHealth <= 0;
+      return { ...state, bossHealth, bossDefeated, bossStatuses: bossDefeated ? [] : state.bossStatuses };
+    }
+
+    case 'damagePlayer': {
+      if (state.bossDefeated || state.playerDefeated) return state;
+      const playerHealth = Math.max(0, state.playerHealth - action.amount);
+      return { ...state, playerHealth, playerDefeated: playerHealth <= 0 };
+    }
+
+    case 'applyBossStatus': {
+      if (state.bossDefeated || state.playerDefeated) return state;
+      // Re-applying a status replaces it, restarting its countdown
+      const others = state.bossStatuses.filter(status => status.type !== action.status);
+      return {
+        ...state,
+        bossStatuses: [...others, { type: action.status, duration: action.duration, appliedAt: action.appliedAt }]
+      };
+    }
+
+    case 'expireBossStatus':
+      if (!state.bossStatuses.some(status => status.type === action.status)) return state;
+      return { ...state, bossStatuses: state.bossStatuses.filter(status => status.type !== action.status) };
+
+    case 'setInvulnerable':
+      if (state.isInvulnerable === action.isInvulnerable) return state;
+      return { ...state, isInvulnerable: action.isInvulnerable };
+
+    case 'restart':
+      // Back to the start of the bridge, briefly invulnerable so the teleport doesn't pick up cards
+      return { ...createInitialGameState(), isInvulnerable: true };
+
+    case 'retry':
+      // Fight the boss again from full health on both sides, keeping the collected loadout
+      return {
+        ...createInitialGameState(),
+        weapon: state.weapon,
+        armour: state.armour,
+        magic: state.magic,
+        stage: state.stage,
+        collectedBlocks: state.collectedBlocks,
+        position: { ...RETRY_POSITION },
+        isInvulnerable: true
+      };
+
+    case 'resume':
+      // Pick a saved run back up, briefly invulnerable so the player doesn't land on a card
+      return { ...createInitialGameState(), ...action.run, isInvulnerable: true };
+
+    case 'fallOff':
+      // Falling off the bridge loses the loadout and heals the player, but keeps boss progress
+      // (statuses wear off - they're re-applied by the new loadout's magic)
+      return {
+        ...createInitialGameState(),
+        bossHealth: state.bossHealth,
+        bossDefeated: state.bossDefeated
+      };
+  }
+}
+
+export function createGameStore(initialState: GameState = createInitialGameState()): GameStore {
+  let state = initialState;
+  const listeners = new Set<Listener>();
+
+  return {
+    getState: () => state,
+    dispatch: (action) => {
+      const nextState = gameReducer(state, action);
+      if (nextState === state) return;
+      state = nextState;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+// Named action creators so call sites read as intent rather than object literals
+export const gameActions = {
+  selectCard: (stage: number, card: CardType, x: number, z: number): GameAction =>
+    ({ type: 'selectCard', stage, card, x, z }),
+  moveTo: (x: number, z: number): GameAction => ({ type: 'moveTo', x, z }),
+  damageBoss: (amount: number): GameAction => ({ type: 'damageBoss', amount }),
+  damagePlayer: (amount: number): GameAction => ({ type: 'damagePlayer', amount }),
+  applyBossStatus: (status: StatusType, duration: number, appliedAt: number): GameAction =>
+    ({ type: 'applyBossStatus', status, duration, appliedAt }),
+  expireBossStatus: (status: StatusType): GameAction => ({ type: 'expireBossStatus', status }),
+  setInvulnerable: (isInvulnerable: boolean): GameAction => ({ type: 'setInvulnerable', isInvulnerable }),
+  restart: (): GameAction => ({ type: 'restart' }),
+  retry: (): GameAction => ({ type: 'retry' }),
+  resume: (run: SavedRun): GameAction => ({ type: 'resume', run }),
+  fallOff: (): GameAction => ({ type: 'fallOff' })
+};
+
+// The single store shared by every component
+export const gameStore = createGameStore();
+
+export const dispatch = gameStore.dispatch;
+
+// Subscribe a component to the whole game state
+export function useGameState(): GameState {
+  return useSyncExternalStore(gameStore.subscribe, gameStore.getState);
+}
+
+// Compares two slices key by key, for selectors that build a new object from several fields
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every(key => Object.is(a[key], b[key]));
+}
+
+// Reads a slice of a store's state, handing back the last slice again while the state hasn't changed
+// or the new slice is equal to it. useSyncExternalStore re-renders whenever its snapshot is a new
+// value, so a selector that builds an object or array would otherwise re-render forever.
+export function createSliceReader<T>(
+  store: GameStore,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): (selector: (state: GameState) => T) => T {
+  let last: { state: GameState; selector: (state: GameState) => T; slice: T } | null = null;
+
+  return selector => {
+    const state = store.getState();
+    if (last && last.state === state && last.selector === selector) return last.slice;
+
+    const slice = selector(state);
+    last = { state, selector, slice: last && isEqual(last.slice, slice) ? last.slice : slice };
+    return last.slice;
+  };
+}
+
+// Subscribe a component to a slice of the game state; it only re-renders when the slice changes.
+// Pass shallowEqual as isEqual for a selector that returns a new object.
+export function useGameSelector<T>(selector: (state: GameState) => T, isEqual?: (a: T, b: T) => boolean): T {
+  const [read] = useState(() => createSliceReader(gameStore, isEqual));
+  return useSyncExternalStore(gameStore.subscribe, () => read(selector));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createGameStore, gameActions } from './gameStore';
+import { createPositionStore } from './positionStore';
+
+describe('createPositionStore', () => {
+  it('moves without notifying the game store', () => {
+    const store = createGameStore();
+    const positions = createPositionStore(store);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    positions.set(1, 12);
+
+    expect(positions.get()).toEqual({ x: 1, z: 12 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(store.getState().position).toEqual({ x: 0, z: 0 });
+  });
+
+  it('jumps to wherever the game puts the player', () => {
+    const store = createGameStore();
+    const positions = createPositionStore(store);
+
+    positions.set(1, 30);
+    store.dispatch(gameActions.fallOff());
+    expect(positions.get()).toEqual({ x: 0, z: 0 });
+
+    positions.set(-1, 60);
+    store.dispatch(gameActions.moveTo(0, 50));
+    expect(positions.get()).toEqual({ x: 0, z: 50 });
+
+    // Walking off and taking the same portal again lands on the same spot again
+    positions.set(1, 55);
+    store.dispatch(gameActions.moveTo(0, 50));
+    expect(positions.get()).toEqual({ x: 0, z: 50 });
+  });
+
+  it('stays put through changes that do not move the player', () => {
+    const store = createGameStore();
+    const positions = createPositionStore(store);
+
+    positions.set(0.5, 44);
+    store.dispatch(gameActions.damagePlayer(10));
+    store.dispatch(gameActions.setInvulnerable(true));
+
+    expect(positions.get()).toEqual({ x: 0.5, z: 44 });
+  });
+
+  it('drops the player in front of the boss on every retry', () => {
+    const store = createGameStore();
+    const positions = createPositionStore(store);
+
+    store.dispatch(gameActions.retry());
+    const retryPosition = positions.get();
+    positions.set(1, 70);
+    store.dispatch(gameActions.retry());
+
+    expect(positions.get()).toEqual(retryPosition);
+  });
+});
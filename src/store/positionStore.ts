@@ -0,0 +1,37 @@
+import { GameState } from '../types/game';
+import { GameStore, gameStore } from './gameStore';
+
+type Position = GameState['position'];
+
+// The player's live position on the bridge. It changes every movement step, far too often to go
+// through the game store - each dispatch re-renders every component using the game state - so
+// frame loops read it from here and nothing re-renders when it moves.
+export interface PositionStore {
+  get: () => Position;
+  set: (x: number, z: number) => void;
+}
+
+// The game store's position is where the game last put the player: the start of a restart, a retry,
+// a resumed run, a fall or a portal. The live position jumps there whenever the game store's changes.
+export function createPositionStore(store: GameStore): PositionStore {
+  let placed = store.getState().position;
+  let position = placed;
+
+  store.subscribe(() => {
+    const next = store.getState().position;
+    if (next === placed) return;
+    placed = next;
+    position = next;
+  });
+
+  return {
+    get: () => position,
+    set: (x, z) => {
+      if (position.x === x && position.z === z) return;
+      position = { x, z };
+    }
+  };
+}
+
+// The single position shared by every frame loop, kept in step with the shared game store
+export const playerPosition = createPositionStore(gameStore);
@@ -0,0 +1,154 @@
+import { GameState, SavedRun } from '../types/game';
+import { STAGES, getItem } from '../items/registry';
+import { GameStore } from './gameStore';
+import { PositionStore, playerPosition } from './positionStore';
+
+const SAVE_KEY = 'cloud-realm-save';
+
+// Bump this whenever SavedRun changes shape, and add a migration from the previous version
+export const SAVE_VERSION = 1;
+
+interface SaveFile {
+  version: number;
+  savedAt: number;
+  run: unknown;
+}
+
+type Migration = (run: Record<string, unknown>) => Record<string, unknown>;
+
+// Each entry upgrades a save from that version to the next one,
+// e.g. `1: run => ({ ...run, newField: defaultValue })` when moving to version 2
+const MIGRATIONS: Record<number, Migration> = {};
+
+// How often, at most, the run is written while it's changing
+const AUTOSAVE_INTERVAL = 1000;
+
+// Same limits Player.tsx clamps movement to
+const POSITION_LIMITS = { minX: -1.9, maxX: 1.9, minZ: -20, maxZ: 300 };
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Rebuild a valid run from whatever was stored. Anything that no longer makes sense -
+// an item that was removed, a stage out of order, a bad number - falls back to a fresh run's value.
+function sanitizeRun(run: Record<string, unknown>): SavedRun | null {
+  const loadout: Pick<GameState, 'weapon' | 'armour' | 'magic'> = { weapon: null, armour: null, magic: null };
+
+  // Stages are filled in bridge order, so stop at the first one without a valid card
+  let stage = 0;
+  for (const { category } of STAGES) {
+    const card = run[category];
+    if (typeof card !== 'string' || getItem(card)?.category !== category) break;
+    loadout[category] = card;
+    stage += 1;
+  }
+
+  const blocks = Array.isArray(run.collectedBlocks) ? run.collectedBlocks : [];
+  const collectedBlocks = blocks
+    .filter((block): block is { x: number; z: number } => isNumber(block?.x) && isNumber(block?.z))
+    .slice(0, stage)
+    .map(({ x, z }) => ({ x, z }));
+
+  const position = run.position as { x?: unknown; z?: unknown } | undefined;
+  const bossHealth = isNumber(run.bossHealth) ? clamp(run.bossHealth, 0, 100) : 100;
+  const playerHealth = isNumber(run.playerHealth) ? clamp(run.playerHealth, 0, 100) : 100;
+
+  // A finished fight isn't worth resuming
+  if (bossHealth <= 0 || playerHealth <= 0) return null;
+
+  return {
+    ...loadout,
+    stage: Math.min(stage, STAGES.length - 1),
+    collectedBlocks,
+    position: {
+      x: isNumber(position?.x) ? clamp(position.x, POSITION_LIMITS.minX, POSITION_LIMITS.maxX) : 0,
+      z: isNumber(position?.z) ? clamp(position.z, POSITION_LIMITS.minZ, POSITION_LIMITS.maxZ) : 0
+    },
+    bossHealth,
+    playerHealth
+  };
+}
+
+// Only offer to continue runs where something has actually happened
+const hasProgress = (run: SavedRun): boolean =>
+  run.weapon !== null || run.bossHealth < 100;
+
+export function loadSavedRun(storage: Storage = window.localStorage): SavedRun | null {
+  try {
+    const raw = storage.getItem(SAVE_KEY);
+    if (!raw) return null;
+
+    const save = JSON.parse(raw) as SaveFile;
+    if (!isNumber(save?.version) || save.version > SAVE_VERSION) {
+      console.log(`Ignoring save with unsupported version ${save?.version}`);
+      return null;
+    }
+
+    let run = (save.run ?? {}) as Record<string, unknown>;
+    for (let version = save.version; version < SAVE_VERSION; version++) {
+      const migrate = MIGRATIONS[version];
+      if (migrate) run = migrate(run);
+    }
+
+    const sanitized = sanitizeRun(run);
+    return sanitized && hasProgress(sanitized) ? sanitized : null;
+  } catch (error) {
+    console.log('Failed to read saved run, starting fresh:', error);
+    return null;
+  }
+}
+
+export function saveRun(state: GameState, storage: Storage = window.localStorage) {
+  const { weapon, armour, magic, stage, collectedBlocks, position, bossHealth, playerHealth } = state;
+  const run: SavedRun = { weapon, armour, magic, stage, collectedBlocks, position, bossHealth, playerHealth };
+  const save: SaveFile = { version: SAVE_VERSION, savedAt: Date.now(), run };
+
+  try {
+    storage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.log('Failed to save run:', error);
+  }
+}
+
+export function clearSavedRun(storage: Storage = window.localStorage) {
+  try {
+    storage.removeItem(SAVE_KEY);
+  } catch (error) {
+    console.log('Failed to clear saved run:', error);
+  }
+}
+
+// Keep the save in step with the store until the returned function is called, saving the player
+// wherever they've walked to. Finished runs clear the save instead, so a refresh never resumes a won or lost fight.
+export function startAutosave(
+  store: GameStore,
+  storage: Storage = window.localStorage,
+  positions: PositionStore = playerPosition
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+
+    const state = store.getState();
+    if (state.bossDefeated || state.playerDefeated) {
+      clearSavedRun(storage);
+    } else {
+      saveRun({ ...state, position: positions.get() }, storage);
+    }
+  };
+
+  const unsubscribe = store.subscribe(() => {
+    if (!timer) timer = setTimeout(flush, AUTOSAVE_INTERVAL);
+  });
+
+  // Catch the last few moves before the tab goes away
+  window.addEventListener('pagehide', flush);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', flush);
+    if (timer) clearTimeout(timer);
+  };
+}
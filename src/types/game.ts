@@ -1,15 +1,43 @@
-export type WeaponType = "sword" | "axe" | "fist";
-export type ArmourType = "steel" | "knowledge" | "gold";
-export type MagicType = "fire" | "water" | "love";
+// Items are defined in the item registry (src/items/registry.ts); these are registry ids
+export type ItemId = string;
+export type ItemCategory = "weapon" | "armour" | "magic";
+export type WeaponType = ItemId;
+export type ArmourType = ItemId;
+export type MagicType = ItemId;
+export type StatusType = "burn" | "slow" | "charm";
+
+// A status currently affecting the boss; appliedAt is a performance.now() timestamp for the UI countdown
+export interface BossStatus {
+  type: StatusType;
+  duration: number;
+  appliedAt: number;
+}
 
 export interface GameState {
   weapon: WeaponType | null;
   armour: ArmourType | null;
   magic: MagicType | null;
+  // Where the game last put the player - the live position is in store/positionStore.ts
   position: { x: number; z: number };
   stage: number;
   collectedBlocks: Array<{ x: number; z: number }>;
   isInvulnerable: boolean;
   bossHealth: number;
   bossDefeated: boolean;
+  bossStatuses: BossStatus[];
+  playerHealth: number;
+  playerDefeated: boolean;
 }
+
+// A complete set of collected cards - the boss fight only starts once all three are chosen
+export interface Loadout {
+  weapon: WeaponType;
+  armour: ArmourType;
+  magic: MagicType;
+}
+
+// The part of a run that survives a page refresh (see store/saveGame.ts)
+export type SavedRun = Pick<
+  GameState,
+  'weapon' | 'armour' | 'magic' | 'stage' | 'collectedBlocks' | 'position' | 'bossHealth' | 'playerHealth'
+>;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Overrides where the "To Vibeverse" portal sends players
+  readonly VITE_PORTAL_HUB_URL?: string;
+}